@@ -1,11 +1,15 @@
 import type { Metadata } from 'next'
+import { BRANDING } from '@/lib/branding'
 import './globals.css'
 
 export const metadata: Metadata = {
-  title: 'Capitol Outdoor - Interactive Map',
-  description: 'Explore Capitol Outdoor advertising locations across the United States',
+  title: `${BRANDING.companyName} - Interactive Map`,
+  description: `Explore ${BRANDING.companyName} advertising locations across the United States`,
 }
 
+// Google Fonts stylesheet for the brand font
+const FONT_URL = `https://fonts.googleapis.com/css2?family=${BRANDING.fonts.web.replace(/ /g, '+')}:wght@400;500;600;700&display=swap`
+
 export default function RootLayout({
   children,
 }: {
@@ -16,7 +20,7 @@ export default function RootLayout({
       <head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
-        <link href="https://fonts.googleapis.com/css2?family=Montserrat:wght@400;500;600;700&display=swap" rel="stylesheet" />
+        <link href={FONT_URL} rel="stylesheet" />
       </head>
       <body className="bg-capitol-light">
         {children}
@@ -1,12 +1,42 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import Header from '@/components/Header'
 import MapContainer from '@/components/MapContainer'
 import Sidebar from '@/components/Sidebar'
 import ShareModal from '@/components/ShareModal'
 import AvailabilityImport from '@/components/AvailabilityImport'
-import { Unit, UnitAvailability } from '@/lib/types'
+import TimelineModal from '@/components/TimelineModal'
+import ProposalsDrawer from '@/components/ProposalsDrawer'
+import ResponseReviewModal from '@/components/ResponseReviewModal'
+import ComparisonPanel from '@/components/ComparisonPanel'
+import {
+  Unit,
+  UnitAvailability,
+  AvailabilitySnapshot,
+  DateRange,
+  MapView,
+  Proposal,
+  ProposalResponse,
+} from '@/lib/types'
+import { generate4WeekPeriod } from '@/lib/availability'
+import {
+  loadSnapshots,
+  saveSnapshot,
+  deleteSnapshot,
+  clearSnapshots,
+  createSnapshot,
+  snapshotToMap,
+  MAX_AVAILABILITY_SNAPSHOTS,
+} from '@/lib/availabilityStore'
+import { loadProposals, saveProposals, createProposal, duplicateProposal, syncProposal } from '@/lib/proposals'
+import {
+  applyProposalResponse,
+  decodeProposalResponse,
+  parseResponseFile,
+  proposalFromResponse,
+} from '@/lib/proposalResponse'
+import { compareProposals, getComparisonColor, getComparisonUnitColors, SHARED_UNIT_COLOR } from '@/lib/comparison'
 import inventoryData from '@/data/inventory.json'
 
 export default function Home() {
@@ -15,12 +45,79 @@ export default function Home() {
   const [marketFilter, setMarketFilter] = useState('')
   const [typeFilter, setTypeFilter] = useState('')
   const [availabilityFilter, setAvailabilityFilter] = useState('')
+  const [flight, setFlight] = useState<DateRange>(() => generate4WeekPeriod())
   const [searchLocation, setSearchLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [isShareModalOpen, setIsShareModalOpen] = useState(false)
   const [isAvailImportOpen, setIsAvailImportOpen] = useState(false)
+  const [timelineUnits, setTimelineUnits] = useState<Unit[] | null>(null)
   const [focusedUnit, setFocusedUnit] = useState<Unit | null>(null)
   const [isGoogleLoaded, setIsGoogleLoaded] = useState(false)
   const [availability, setAvailability] = useState<Map<string, UnitAvailability>>(new Map())
+  const [availabilityHistory, setAvailabilityHistory] = useState<AvailabilitySnapshot[]>([])
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [activeProposalId, setActiveProposalId] = useState<string | null>(null)
+  const [isProposalsOpen, setIsProposalsOpen] = useState(false)
+  const [pendingResponse, setPendingResponse] = useState<ProposalResponse | null>(null)
+  const [comparingIds, setComparingIds] = useState<string[] | null>(null)
+  // Latest map viewport, kept in a ref so panning doesn't re-render the page
+  const mapViewRef = useRef<MapView | null>(null)
+  // First import, or any clear, made by the user, so a slow storage read can't overwrite it
+  const availabilityChangeRef = useRef<'import' | 'clear' | null>(null)
+
+  // Rehydrate the most recent import from browser storage
+  useEffect(() => {
+    loadSnapshots()
+      .then(snapshots => {
+        // Stored snapshots were wiped while the read was in flight
+        if (availabilityChangeRef.current === 'clear') return
+
+        // Keep a newer import on screen, with the stored history behind it for revert
+        if (availabilityChangeRef.current === 'import') {
+          setAvailabilityHistory(prev =>
+            [...prev, ...snapshots.filter(s => !prev.some(p => p.id === s.id))].slice(0, MAX_AVAILABILITY_SNAPSHOTS)
+          )
+          return
+        }
+
+        setAvailabilityHistory(snapshots)
+        setAvailability(snapshotToMap(snapshots[0]))
+      })
+      .catch(err => console.error('Failed to load stored availability:', err))
+  }, [])
+
+  useEffect(() => {
+    setProposals(loadProposals())
+  }, [])
+
+  // A client's response link opens the app with ?response=...
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.search).get('response')
+    if (!encoded) return
+
+    const response = decodeProposalResponse(encoded)
+    if (response) {
+      setPendingResponse(response)
+    } else {
+      window.alert('This response link is damaged or incomplete.')
+    }
+    window.history.replaceState(null, '', window.location.pathname)
+  }, [])
+
+  const commitProposals = useCallback((next: Proposal[]) => {
+    setProposals(next)
+    saveProposals(next)
+  }, [])
+
+  const activeProposal = proposals.find(p => p.id === activeProposalId) || null
+
+  // The open proposal follows the map selection and flight
+  useEffect(() => {
+    if (!activeProposal) return
+    const synced = syncProposal(activeProposal, Array.from(selectedIds), flight)
+    if (synced !== activeProposal) {
+      commitProposals(proposals.map(p => (p.id === synced.id ? synced : p)))
+    }
+  }, [activeProposal, selectedIds, flight, proposals, commitProposals])
 
   const handleToggleSelect = useCallback((unitId: string) => {
     setSelectedIds(prev => {
@@ -46,16 +143,131 @@ export default function Home() {
     setSearchLocation(null)
   }, [])
 
-  const handleAvailabilityImport = useCallback((imported: Map<string, UnitAvailability>) => {
-    setAvailability(prev => {
-      const merged = new Map(prev)
-      imported.forEach((value, key) => {
-        merged.set(key, value)
-      })
-      return merged
-    })
+  const handleMapViewChange = useCallback((view: MapView) => {
+    mapViewRef.current = view
+  }, [])
+
+  // The import modal has already merged the file into the loaded availability
+  const handleAvailabilityImport = useCallback((merged: Map<string, UnitAvailability>, fileName: string) => {
+    const snapshot = createSnapshot(merged, fileName)
+    if (!availabilityChangeRef.current) availabilityChangeRef.current = 'import'
+    setAvailability(merged)
+    setAvailabilityHistory(prev => [snapshot, ...prev].slice(0, MAX_AVAILABILITY_SNAPSHOTS))
+    saveSnapshot(snapshot).catch(err => console.error('Failed to store availability:', err))
   }, [])
 
+  // Drop the latest import and restore the one before it
+  const handleRevertAvailability = useCallback(() => {
+    const [latest, ...rest] = availabilityHistory
+    if (!latest) return
+
+    setAvailabilityHistory(rest)
+    setAvailability(snapshotToMap(rest[0]))
+    deleteSnapshot(latest.id).catch(err => console.error('Failed to remove availability import:', err))
+  }, [availabilityHistory])
+
+  const handleClearAvailability = useCallback(() => {
+    availabilityChangeRef.current = 'clear'
+    setAvailabilityHistory([])
+    setAvailability(new Map())
+    clearSnapshots().catch(err => console.error('Failed to clear stored availability:', err))
+  }, [])
+
+  const openProposal = useCallback((proposal: Proposal) => {
+    setActiveProposalId(proposal.id)
+    setSelectedIds(new Set(proposal.units.map(u => u.unitId)))
+    setFlight(proposal.flight)
+  }, [])
+
+  const handleNewProposal = useCallback(() => {
+    const proposal = createProposal(Array.from(selectedIds), flight)
+    commitProposals([proposal, ...proposals])
+    setActiveProposalId(proposal.id)
+  }, [selectedIds, flight, proposals, commitProposals])
+
+  const handleDuplicateProposal = useCallback((id: string) => {
+    const original = proposals.find(p => p.id === id)
+    if (!original) return
+    const copy = duplicateProposal(original)
+    commitProposals([copy, ...proposals])
+    openProposal(copy)
+  }, [proposals, commitProposals, openProposal])
+
+  const handleDeleteProposal = useCallback((id: string) => {
+    commitProposals(proposals.filter(p => p.id !== id))
+    if (id === activeProposalId) {
+      setActiveProposalId(null)
+    }
+  }, [proposals, activeProposalId, commitProposals])
+
+  const handleUpdateProposal = useCallback((updated: Proposal) => {
+    const stamped = { ...updated, updatedAt: new Date().toISOString() }
+    commitProposals(proposals.map(p => (p.id === stamped.id ? stamped : p)))
+  }, [proposals, commitProposals])
+
+  const handleCloseProposal = useCallback(() => {
+    setActiveProposalId(null)
+    setSelectedIds(new Set())
+  }, [])
+
+  const handleResponseFile = useCallback(async (file: File) => {
+    const response = parseResponseFile(await file.text())
+    if (response) {
+      setPendingResponse(response)
+    } else {
+      window.alert(`${file.name} isn't a proposal response file.`)
+    }
+  }, [])
+
+  // Record the client's decisions on the proposal they answered, or start a new one
+  const handleApplyResponse = useCallback(() => {
+    if (!pendingResponse) return
+
+    const original = proposals.find(p => p.id === pendingResponse.proposalId)
+    const updated = original
+      ? applyProposalResponse(original, pendingResponse)
+      : proposalFromResponse(pendingResponse, flight)
+
+    commitProposals(original
+      ? proposals.map(p => (p.id === updated.id ? updated : p))
+      : [updated, ...proposals])
+    openProposal(updated)
+    setPendingResponse(null)
+    setIsProposalsOpen(true)
+  }, [pendingResponse, proposals, flight, commitProposals, openProposal])
+
+  // Sharing always goes through a saved proposal, so start one if none is open
+  const handleShareClick = useCallback(() => {
+    if (!activeProposal) {
+      handleNewProposal()
+    }
+    setIsShareModalOpen(true)
+  }, [activeProposal, handleNewProposal])
+
+  const handleCompare = useCallback((ids: string[]) => {
+    setComparingIds(ids)
+    setIsProposalsOpen(false)
+  }, [])
+
+  // Proposals being compared, dropping any deleted since; fewer than two ends the comparison
+  const comparison = useMemo(() => {
+    const compared = (comparingIds || [])
+      .map(id => proposals.find(p => p.id === id))
+      .filter((p): p is Proposal => !!p)
+    return compared.length > 1 ? compareProposals(compared, units, availability) : null
+  }, [comparingIds, proposals, units, availability])
+
+  const comparisonColors = useMemo(
+    () => (comparison ? getComparisonUnitColors(comparison) : undefined),
+    [comparison]
+  )
+
+  // Memoized so the map only reframes when the compared units change
+  const comparisonUnits = useMemo(
+    () => (comparisonColors ? units.filter(u => comparisonColors.has(u.id)) : null),
+    [units, comparisonColors]
+  )
+
   // Filter units for map display
   let filteredUnits = units
   if (marketFilter) {
@@ -64,36 +276,60 @@ export default function Home() {
   if (typeFilter) {
     filteredUnits = filteredUnits.filter(u => u.type === typeFilter)
   }
+  // Comparing shows every unit in the options, whatever the filters
+  if (comparisonUnits) {
+    filteredUnits = comparisonUnits
+  }
 
-  const selectedUnits = units.filter(u => selectedIds.has(u.id))
+  // Availability outlines only make sense when every option has the same flight
+  let mapFlight: DateRange | undefined = flight
+  if (comparison) {
+    const [first] = comparison.options
+    const sameFlight = comparison.options.every(
+      o => o.flight.startDate === first.flight.startDate && o.flight.endDate === first.flight.endDate
+    )
+    mapFlight = sameFlight ? first.flight : undefined
+  }
 
   return (
     <div className="h-screen flex flex-col">
       <Header
         selectedCount={selectedIds.size}
-        onShareClick={() => setIsShareModalOpen(true)}
+        onShareClick={handleShareClick}
+        proposalTitle={activeProposal?.title}
+        onProposalsClick={() => setIsProposalsOpen(true)}
       />
 
       <div className="flex-1 flex overflow-hidden">
         {/* Sidebar */}
-        <Sidebar
-          units={units}
-          selectedIds={selectedIds}
-          onToggleSelect={handleToggleSelect}
-          onUnitClick={handleUnitClick}
-          marketFilter={marketFilter}
-          onMarketFilterChange={setMarketFilter}
-          typeFilter={typeFilter}
-          onTypeFilterChange={setTypeFilter}
-          availabilityFilter={availabilityFilter}
-          onAvailabilityFilterChange={setAvailabilityFilter}
-          onLocationSearch={handleLocationSearch}
-          searchLocation={searchLocation}
-          onClearLocationSearch={handleClearLocationSearch}
-          isGoogleLoaded={isGoogleLoaded}
-          availability={availability}
-          onOpenAvailImport={() => setIsAvailImportOpen(true)}
-        />
+        {comparison ? (
+          <ComparisonPanel comparison={comparison} onClose={() => setComparingIds(null)} />
+        ) : (
+          <Sidebar
+            units={units}
+            selectedIds={selectedIds}
+            onToggleSelect={handleToggleSelect}
+            onUnitClick={handleUnitClick}
+            marketFilter={marketFilter}
+            onMarketFilterChange={setMarketFilter}
+            typeFilter={typeFilter}
+            onTypeFilterChange={setTypeFilter}
+            availabilityFilter={availabilityFilter}
+            onAvailabilityFilterChange={setAvailabilityFilter}
+            flight={flight}
+            onFlightChange={setFlight}
+            onLocationSearch={handleLocationSearch}
+            searchLocation={searchLocation}
+            onClearLocationSearch={handleClearLocationSearch}
+            isGoogleLoaded={isGoogleLoaded}
+            availability={availability}
+            availabilityHistory={availabilityHistory}
+            onOpenAvailImport={() => setIsAvailImportOpen(true)}
+            onOpenTimeline={setTimelineUnits}
+            onRevertAvailability={handleRevertAvailability}
+            onClearAvailability={handleClearAvailability}
+          />
+        )}
 
         {/* Map */}
         <div className="flex-1">
@@ -106,17 +342,62 @@ export default function Home() {
             searchLocation={searchLocation}
             onGoogleLoaded={setIsGoogleLoaded}
             availability={availability}
+            flight={mapFlight}
+            onViewChange={handleMapViewChange}
+            fitToUnits={!!comparison}
+            unitColors={comparisonColors}
+            colorLegend={comparison ? [
+              ...comparison.options.map((option, i) => ({ label: option.title, color: getComparisonColor(i) })),
+              { label: 'In more than one', color: SHARED_UNIT_COLOR },
+            ] : undefined}
           />
         </div>
       </div>
 
       {/* Share Modal */}
-      <ShareModal
-        isOpen={isShareModalOpen}
-        onClose={() => setIsShareModalOpen(false)}
-        selectedUnits={selectedUnits}
-        allUnits={units}
-      />
+      {activeProposal && isShareModalOpen && (
+        <ShareModal
+          onClose={() => setIsShareModalOpen(false)}
+          proposal={activeProposal}
+          onProposalChange={handleUpdateProposal}
+          allUnits={units}
+          availability={availability}
+          mapView={mapViewRef.current}
+        />
+      )}
+
+      {/* Proposals Drawer */}
+      {isProposalsOpen && (
+        <ProposalsDrawer
+          proposals={proposals}
+          activeProposalId={activeProposalId}
+          units={units}
+          selectedCount={selectedIds.size}
+          onNew={handleNewProposal}
+          onOpen={(id) => {
+            const proposal = proposals.find(p => p.id === id)
+            if (proposal) openProposal(proposal)
+          }}
+          onDuplicate={handleDuplicateProposal}
+          onDelete={handleDeleteProposal}
+          onUpdate={handleUpdateProposal}
+          onCloseProposal={handleCloseProposal}
+          onResponseFile={handleResponseFile}
+          onCompare={handleCompare}
+          onClose={() => setIsProposalsOpen(false)}
+        />
+      )}
+
+      {/* Client Response Review */}
+      {pendingResponse && (
+        <ResponseReviewModal
+          response={pendingResponse}
+          proposal={proposals.find(p => p.id === pendingResponse.proposalId) || null}
+          units={units}
+          onApply={handleApplyResponse}
+          onClose={() => setPendingResponse(null)}
+        />
+      )}
 
       {/* Availability Import Modal */}
       {isAvailImportOpen && (
@@ -124,6 +405,21 @@ export default function Home() {
           onImport={handleAvailabilityImport}
           onClose={() => setIsAvailImportOpen(false)}
           unitIds={units.map(u => u.id)}
+          existing={availability}
+        />
+      )}
+
+      {/* Availability Timeline Modal */}
+      {timelineUnits && (
+        <TimelineModal
+          units={timelineUnits}
+          availability={availability}
+          flight={flight}
+          onUnitClick={(unit) => {
+            setTimelineUnits(null)
+            handleUnitClick(unit)
+          }}
+          onClose={() => setTimelineUnits(null)}
         />
       )}
     </div>
@@ -1,11 +1,19 @@
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useMemo, Suspense } from 'react'
 import { useSearchParams } from 'next/navigation'
 import Header from '@/components/Header'
 import MapContainer from '@/components/MapContainer'
-import { Unit } from '@/lib/types'
-import { decodeShareState } from '@/lib/share'
+import ResponsePanel from '@/components/ResponsePanel'
+import ReachSummary from '@/components/ReachSummary'
+import { ProposalResponse, ShareState, Unit, UnitResponse } from '@/lib/types'
+import { decodeShareState, checkShareLink, copyToClipboard, ShareLinkCheck } from '@/lib/share'
+import { formatDateRange, getStatusDisplay } from '@/lib/availability'
+import { generateResponseUrl, responseToFile } from '@/lib/proposalResponse'
+import { downloadFile } from '@/lib/download'
+import { calculatePricing, formatCurrency } from '@/lib/pricing'
+import { estimateReach } from '@/lib/reach'
+import { BRANDING } from '@/lib/branding'
 import inventoryData from '@/data/inventory.json'
 
 function ShareContent() {
@@ -13,40 +21,161 @@ function ShareContent() {
   const [units] = useState<Unit[]>(inventoryData.units as Unit[])
   const [filteredUnits, setFilteredUnits] = useState<Unit[]>([])
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
-  const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | undefined>()
-  const [mapZoom, setMapZoom] = useState<number | undefined>()
+  const [shareInfo, setShareInfo] = useState<ShareState | null>(null)
+  const [isResponding, setIsResponding] = useState(false)
+  const [responses, setResponses] = useState<Record<string, UnitResponse>>({})
+  const [respondent, setRespondent] = useState('')
+  const [responseComment, setResponseComment] = useState('')
+  const [responseUrl, setResponseUrl] = useState<string | null>(null)
+  const [responseCopied, setResponseCopied] = useState(false)
+  const [linkCheck, setLinkCheck] = useState<ShareLinkCheck | null>(null)
+  const [showReach, setShowReach] = useState(false)
+  const [isGeneratingPDF, setIsGeneratingPDF] = useState(false)
 
   useEffect(() => {
-    const shareState = decodeShareState(searchParams.toString())
+    checkShareLink(searchParams.toString()).then(setLinkCheck)
+  }, [searchParams])
+
+  useEffect(() => {
+    const shareState = decodeShareState(searchParams.toString(), units.map(u => u.id))
+    setShareInfo(shareState)
 
     if (shareState.selectedUnits.length > 0) {
       const sharedUnits = units.filter(u => shareState.selectedUnits.includes(u.id))
       setFilteredUnits(sharedUnits)
       setSelectedIds(new Set(shareState.selectedUnits))
-
-      // Calculate center from shared units
-      if (sharedUnits.length > 0) {
-        const avgLat = sharedUnits.reduce((sum, u) => sum + u.lat, 0) / sharedUnits.length
-        const avgLng = sharedUnits.reduce((sum, u) => sum + u.lng, 0) / sharedUnits.length
-        setMapCenter({ lat: avgLat, lng: avgLng })
-
-        // Determine zoom based on spread
-        const latSpread = Math.max(...sharedUnits.map(u => u.lat)) - Math.min(...sharedUnits.map(u => u.lat))
-        const lngSpread = Math.max(...sharedUnits.map(u => u.lng)) - Math.min(...sharedUnits.map(u => u.lng))
-        const maxSpread = Math.max(latSpread, lngSpread)
-
-        if (maxSpread < 0.5) setMapZoom(12)
-        else if (maxSpread < 2) setMapZoom(9)
-        else if (maxSpread < 5) setMapZoom(7)
-        else setMapZoom(5)
-      }
     }
   }, [searchParams, units])
 
-  // No-op for share view - selection is read-only
-  const handleToggleSelect = () => {}
+  // Open on the rep's shared view if there is one, otherwise frame the units
+  // (memoized so re-renders don't snap the map back)
+  const sharedView = useMemo(() => {
+    const center = shareInfo?.center
+    const zoom = shareInfo?.zoom
+    if (!center || zoom === undefined || [center.lat, center.lng, zoom].some(Number.isNaN)) {
+      return null
+    }
+    return { center, zoom }
+  }, [shareInfo])
+
+  const handleUnitResponseChange = (unitId: string, change: Partial<UnitResponse>) => {
+    setResponses(prev => ({ ...prev, [unitId]: { ...prev[unitId], ...change, unitId } }))
+    setResponseUrl(null)
+  }
+
+  // Selection is read-only, except that in response mode the map button approves a unit
+  const handleToggleSelect = (unitId: string) => {
+    if (!isResponding) return
+    handleUnitResponseChange(unitId, {
+      decision: responses[unitId]?.decision === 'approved' ? undefined : 'approved',
+    })
+  }
+
+  // While responding, the map highlights approved units instead of the whole proposal
+  const highlightedIds = isResponding
+    ? new Set(filteredUnits.filter(u => responses[u.id]?.decision === 'approved').map(u => u.id))
+    : selectedIds
+
+  const buildResponse = (): ProposalResponse => ({
+    proposalId: shareInfo?.proposalId,
+    title: shareInfo?.title,
+    advertiser: shareInfo?.advertiser,
+    flight: shareInfo?.flight,
+    respondent: respondent.trim() || undefined,
+    comment: responseComment.trim() || undefined,
+    respondedAt: new Date().toISOString(),
+    units: filteredUnits.map(u => responses[u.id] || { unitId: u.id }),
+  })
+
+  const handleCreateResponseLink = async () => {
+    const url = generateResponseUrl(window.location.origin, buildResponse())
+    setResponseUrl(url)
+    if (await copyToClipboard(url)) {
+      setResponseCopied(true)
+      setTimeout(() => setResponseCopied(false), 2000)
+    }
+  }
+
+  const fileName = (shareInfo?.title || 'proposal').replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+
+  const handleDownloadResponse = () => {
+    downloadFile(responseToFile(buildResponse()), `${fileName}-response.json`, 'application/json')
+  }
+
+  // jsPDF is only loaded when someone asks for the PDF
+  const handleDownloadProposal = async () => {
+    setIsGeneratingPDF(true)
+    try {
+      const { generateProposalPDF, downloadPDF } = await import('@/lib/pdfGenerator')
+      const doc = await generateProposalPDF(filteredUnits, {
+        title: shareInfo?.title,
+        advertiser: shareInfo?.advertiser,
+        flight: shareInfo?.flight,
+        rep: shareInfo?.rep,
+        unitStatuses: shareInfo?.unitStatuses,
+        pricing,
+        reach,
+      })
+      downloadPDF(doc, `${fileName}.pdf`)
+    } catch (err) {
+      console.error('Failed to generate proposal PDF:', err)
+      window.alert('Sorry, the proposal PDF could not be created.')
+    } finally {
+      setIsGeneratingPDF(false)
+    }
+  }
 
   const totalImpressions = filteredUnits.reduce((sum, u) => sum + u.dailyImpressions, 0)
+  const proposalFor = shareInfo?.advertiser || shareInfo?.title
+
+  // Priced only with the rates quoted in the link, so rate card changes don't
+  // alter a proposal already sent; links without a flight or quote show no pricing
+  const pricing = shareInfo?.flight && shareInfo.quotedRates
+    ? calculatePricing(filteredUnits, shareInfo.flight, shareInfo.discountPercent, shareInfo.quotedRates)
+    : null
+  const reach = shareInfo?.flight ? estimateReach(filteredUnits, shareInfo.flight) : null
+
+  // Only legacy `units=` links open unsigned; they can't be responded to
+  const isLegacyLink = linkCheck === 'unsigned'
+
+  if (!linkCheck) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <div className="animate-spin w-10 h-10 border-4 border-capitol-red border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  // Expired, edited or unverifiable links never reach the map
+  if (linkCheck === 'expired' || linkCheck === 'invalid' || linkCheck === 'unverifiable') {
+    return (
+      <div className="h-screen flex flex-col">
+        <Header isShareMode={true} />
+        <div className="flex-1 flex items-center justify-center bg-gray-100 p-6">
+          <div className="text-center max-w-md">
+            <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <h2 className="text-xl font-semibold text-gray-600 mb-2">
+              {linkCheck === 'expired'
+                ? 'This proposal has expired'
+                : linkCheck === 'unverifiable'
+                  ? 'This proposal link can\'t be verified'
+                  : 'This proposal link is not valid'}
+            </h2>
+            <p className="text-gray-500">
+              {linkCheck === 'expired'
+                ? 'Availability and pricing may have changed since it was sent.'
+                : linkCheck === 'unverifiable'
+                  ? 'Open it over https so this page can confirm its details.'
+                  : 'The link may have been changed or copied incompletely.'}{' '}
+              Please contact your {BRANDING.companyName} rep for an updated proposal.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div className="h-screen flex flex-col">
@@ -54,6 +183,35 @@ function ShareContent() {
 
       {/* Info Bar */}
       <div className="bg-white border-b border-gray-200 px-6 py-3">
+        {(proposalFor || shareInfo?.flight || shareInfo?.rep) && (
+          <div className="max-w-7xl mx-auto mb-2 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-capitol-dark">
+                {proposalFor ? `Proposal for ${proposalFor}` : 'Proposal'}
+                {shareInfo?.flight && `, ${formatDateRange(shareInfo.flight.startDate, shareInfo.flight.endDate)}`}
+              </h2>
+              {shareInfo?.advertiser && shareInfo.title && (
+                <p className="text-sm text-gray-500">{shareInfo.title}</p>
+              )}
+            </div>
+            {shareInfo?.rep && (
+              <div className="text-sm text-right text-gray-500">
+                <p className="font-medium text-capitol-dark">{shareInfo.rep.name}</p>
+                <p>
+                  {shareInfo.rep.phone || BRANDING.office.phone}
+                  {shareInfo.rep.email && (
+                    <>
+                      {' · '}
+                      <a href={`mailto:${shareInfo.rep.email}`} className="text-capitol-red hover:underline">
+                        {shareInfo.rep.email}
+                      </a>
+                    </>
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
         <div className="flex items-center justify-between max-w-7xl mx-auto">
           <div className="flex items-center gap-6">
             <div>
@@ -72,62 +230,177 @@ function ShareContent() {
                 {Array.from(new Set(filteredUnits.map(u => u.market))).join(', ') || '-'}
               </p>
             </div>
+            {pricing && pricing.lines.length > 0 && (
+              <>
+                <div className="w-px h-10 bg-gray-200" />
+                <div title="Media, production and install">
+                  <span className="text-sm text-gray-500">Gross</span>
+                  <p className="font-semibold text-capitol-red">{formatCurrency(pricing.gross)}</p>
+                </div>
+                <div className="w-px h-10 bg-gray-200" />
+                <div title={pricing.discountPercent ? `Includes a ${pricing.discountPercent}% media discount` : undefined}>
+                  <span className="text-sm text-gray-500">Net</span>
+                  <p className="font-semibold text-capitol-red">{formatCurrency(pricing.net)}</p>
+                </div>
+                <div className="w-px h-10 bg-gray-200" />
+                <div title="Net media cost per thousand impressions over the flight">
+                  <span className="text-sm text-gray-500">CPM</span>
+                  <p className="font-semibold text-capitol-red">
+                    {pricing.cpm !== null ? formatCurrency(pricing.cpm, true) : '-'}
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {filteredUnits.length > 0 && (
+              <button
+                onClick={handleDownloadProposal}
+                disabled={isGeneratingPDF}
+                className="bg-gray-100 hover:bg-gray-200 disabled:opacity-60 text-gray-700 px-4 py-2 rounded-lg font-medium text-sm transition-colors"
+              >
+                {isGeneratingPDF ? 'Preparing PDF…' : 'Download proposal'}
+              </button>
+            )}
+            {reach && reach.markets.length > 0 && (
+              <button
+                onClick={() => setShowReach(!showReach)}
+                className={`px-4 py-2 rounded-lg font-medium text-sm transition-colors ${
+                  showReach ? 'bg-capitol-dark text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                Reach &amp; Frequency
+              </button>
+            )}
+            {filteredUnits.length > 0 && !isResponding && !isLegacyLink && (
+              <button
+                onClick={() => setIsResponding(true)}
+                className="bg-capitol-red hover:bg-capitol-red-dark text-white px-4 py-2 rounded-lg font-medium text-sm transition-colors"
+              >
+                Respond to Proposal
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Reach & frequency */}
+      {showReach && reach && (
+        <div className="bg-white border-b border-gray-200 px-6 py-3">
+          <div className="max-w-xl">
+            <ReachSummary estimate={reach} />
+          </div>
+        </div>
+      )}
+
+      {/* Legacy links open read-only, with a note */}
+      {isLegacyLink && (
+        <div className="bg-gray-50 border-b border-gray-200 px-6 py-2 text-sm text-gray-600">
+          <div className="max-w-7xl mx-auto">
+            This link was created before proposal links were verified, so it shows the units only.
+            {' '}Contact your {BRANDING.companyName} rep for a current proposal.
+          </div>
+        </div>
+      )}
+
+      {/* Stale link warning */}
+      {(shareInfo?.missingUnits || shareInfo?.inventoryChanged) && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 text-sm text-amber-800">
+          <div className="max-w-7xl mx-auto">
+            {shareInfo.missingUnits
+              ? `${shareInfo.missingUnits.length} unit${shareInfo.missingUnits.length !== 1 ? 's' : ''} in this proposal ${
+                  shareInfo.missingUnits.length !== 1 ? 'are' : 'is'
+                } no longer in our inventory (${shareInfo.missingUnits.join(', ')}).`
+              : 'Our inventory has changed since this link was created, so the units shown may differ from the original proposal.'}
+            {' '}Contact your {BRANDING.companyName} rep for an updated link.
+          </div>
+        </div>
+      )}
+
       {/* Unit List (horizontal) */}
       {filteredUnits.length > 0 && (
         <div className="bg-white border-b border-gray-200 px-6 py-3 overflow-x-auto">
           <div className="flex gap-3">
-            {filteredUnits.map(unit => (
-              <div
-                key={unit.id}
-                className="flex-shrink-0 bg-gray-50 rounded-lg px-4 py-2 flex items-center gap-3"
-              >
-                <div className="w-8 h-8 bg-capitol-red/20 rounded-lg flex items-center justify-center">
-                  <svg className="w-4 h-4 text-capitol-red" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                  </svg>
-                </div>
-                <div>
-                  <p className="font-medium text-sm text-capitol-gray">{unit.name}</p>
-                  <p className="text-xs text-gray-500">{unit.market} | {unit.dailyImpressions.toLocaleString()} imp/day</p>
+            {filteredUnits.map(unit => {
+              const status = shareInfo?.unitStatuses?.[unit.id]
+              const statusDisplay = status ? getStatusDisplay(status) : null
+
+              return (
+                <div
+                  key={unit.id}
+                  className="flex-shrink-0 bg-gray-50 rounded-lg px-4 py-2 flex items-center gap-3"
+                >
+                  <div className="w-8 h-8 bg-capitol-red/20 rounded-lg flex items-center justify-center">
+                    <svg className="w-4 h-4 text-capitol-red" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm text-capitol-gray">{unit.name}</p>
+                    <p className="text-xs text-gray-500">{unit.market} | {unit.dailyImpressions.toLocaleString()} imp/day</p>
+                  </div>
+                  {statusDisplay && (
+                    <span
+                      className={`text-xs px-1.5 py-0.5 rounded font-medium ${statusDisplay.color}`}
+                      title="Status for this flight when the proposal was shared"
+                    >
+                      {statusDisplay.label}
+                    </span>
+                  )}
                 </div>
-              </div>
-            ))}
+              )
+            })}
           </div>
         </div>
       )}
 
       {/* Map */}
-      <div className="flex-1">
-        {filteredUnits.length > 0 ? (
-          <MapContainer
+      <div className="flex-1 flex overflow-hidden">
+        {isResponding && (
+          <ResponsePanel
             units={filteredUnits}
-            selectedIds={selectedIds}
-            onToggleSelect={handleToggleSelect}
-            center={mapCenter}
-            zoom={mapZoom}
+            responses={responses}
+            onUnitResponseChange={handleUnitResponseChange}
+            respondent={respondent}
+            onRespondentChange={setRespondent}
+            comment={responseComment}
+            onCommentChange={setResponseComment}
+            responseUrl={responseUrl}
+            copied={responseCopied}
+            onCreateLink={handleCreateResponseLink}
+            onDownload={handleDownloadResponse}
+            onClose={() => setIsResponding(false)}
           />
-        ) : (
-          <div className="w-full h-full flex items-center justify-center bg-gray-100">
-            <div className="text-center">
-              <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
-              </svg>
-              <h2 className="text-xl font-semibold text-gray-600 mb-2">No Units Selected</h2>
-              <p className="text-gray-500">This share link doesn't contain any valid units.</p>
-              <a
-                href="/"
-                className="inline-block mt-4 bg-capitol-red hover:bg-capitol-red-dark text-white px-6 py-2 rounded-lg font-medium transition-colors"
-              >
-                View All Units
-              </a>
-            </div>
-          </div>
         )}
+        <div className="flex-1">
+          {filteredUnits.length > 0 ? (
+            <MapContainer
+              units={filteredUnits}
+              selectedIds={highlightedIds}
+              onToggleSelect={handleToggleSelect}
+              center={sharedView?.center}
+              zoom={sharedView?.zoom}
+              fitToUnits={!sharedView}
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center bg-gray-100">
+              <div className="text-center">
+                <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+                <h2 className="text-xl font-semibold text-gray-600 mb-2">No Units Selected</h2>
+                <p className="text-gray-500">This share link doesn&apos;t contain any valid units.</p>
+                <a
+                  href="/"
+                  className="inline-block mt-4 bg-capitol-red hover:bg-capitol-red-dark text-white px-6 py-2 rounded-lg font-medium transition-colors"
+                >
+                  View All Units
+                </a>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   )
@@ -1,12 +1,27 @@
 'use client'
 
 import { useState, useRef } from 'react'
-import { UnitAvailability, AvailabilityPeriod, AvailabilityStatus } from '@/lib/types'
+import {
+  UnitAvailability,
+  AvailabilityPeriod,
+  AvailabilityStatus,
+  MergeStrategy,
+  PeriodConflict,
+  ColumnMapping,
+  ImportField,
+  HoldPosition,
+} from '@/lib/types'
+import { findPeriodConflicts, mergeAvailability, diffAvailability, formatDateRange, formatHold } from '@/lib/availability'
+import { Workbook, getSpreadsheetFormat, detectDelimiter, isExcelSupported, readWorkbook } from '@/lib/spreadsheet'
+import { parseCSV } from '@/lib/csv'
+import { parseDateOnly } from '@/lib/dates'
+import { IMPORT_FIELDS, detectColumnMapping, isMappingComplete, saveMapping } from '@/lib/columnMapping'
 
 interface AvailabilityImportProps {
-  onImport: (availability: Map<string, UnitAvailability>) => void
+  onImport: (availability: Map<string, UnitAvailability>, fileName: string) => void
   onClose: () => void
   unitIds: string[] // Valid unit IDs for validation
+  existing: Map<string, UnitAvailability> // Availability already loaded, for merging
 }
 
 interface ParsedRow {
@@ -16,6 +31,8 @@ interface ParsedRow {
   status: AvailabilityStatus
   client?: string
   notes?: string
+  holdPosition?: HoldPosition
+  holdExpires?: string
 }
 
 interface ParseError {
@@ -23,67 +40,59 @@ interface ParseError {
   message: string
 }
 
-export default function AvailabilityImport({ onImport, onClose, unitIds }: AvailabilityImportProps) {
+interface RowConflict extends PeriodConflict {
+  unitId: string
+}
+
+const mergeStrategies: { value: MergeStrategy; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace unit', description: 'Imported units lose all previously loaded periods' },
+  { value: 'append', label: 'Append periods', description: 'Imported periods are added next to existing ones' },
+  { value: 'newest-wins', label: 'Newest wins per date', description: 'Imported periods override existing ones on the same dates' },
+]
+
+export default function AvailabilityImport({ onImport, onClose, unitIds, existing }: AvailabilityImportProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [file, setFile] = useState<File | null>(null)
   const [parsedData, setParsedData] = useState<ParsedRow[]>([])
   const [errors, setErrors] = useState<ParseError[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
+  const [strategy, setStrategy] = useState<MergeStrategy>('replace')
+  const [workbook, setWorkbook] = useState<Workbook | null>(null)
+  const [sheetName, setSheetName] = useState('')
+  const [table, setTable] = useState<string[][] | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [showMapping, setShowMapping] = useState(false)
+  const [rememberMapping, setRememberMapping] = useState(true)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const validStatuses: AvailabilityStatus[] = ['available', 'sold', 'hold', 'pending']
 
-  const parseCSV = (text: string): { rows: ParsedRow[]; errors: ParseError[] } => {
-    const lines = text.trim().split('\n')
+  // Accepts 1, 2, "1st", "2nd", "first" or "second"
+  const parseHoldPosition = (value: string): HoldPosition | null => {
+    const normalized = value.toLowerCase().replace(/\s*hold$/, '')
+    if (['1', '1st', 'first'].includes(normalized)) return 1
+    if (['2', '2nd', 'second'].includes(normalized)) return 2
+    return null
+  }
+
+  const parseTable = (table: string[][], mapping: ColumnMapping): { rows: ParsedRow[]; errors: ParseError[] } => {
     const rows: ParsedRow[] = []
     const errors: ParseError[] = []
 
-    // Expect header row
-    const header = lines[0]?.toLowerCase().split(',').map(h => h.trim())
-
-    // Find column indices
-    const unitIdIdx = header?.findIndex(h => h === 'unit_id' || h === 'unitid' || h === 'unit id' || h === 'id')
-    const startIdx = header?.findIndex(h => h === 'start_date' || h === 'startdate' || h === 'start' || h === 'from')
-    const endIdx = header?.findIndex(h => h === 'end_date' || h === 'enddate' || h === 'end' || h === 'to')
-    const statusIdx = header?.findIndex(h => h === 'status' || h === 'availability')
-    const clientIdx = header?.findIndex(h => h === 'client' || h === 'advertiser' || h === 'customer')
-    const notesIdx = header?.findIndex(h => h === 'notes' || h === 'comments')
-
-    if (unitIdIdx === -1 || startIdx === -1 || endIdx === -1 || statusIdx === -1) {
-      errors.push({
-        row: 1,
-        message: 'Missing required columns. Expected: unit_id, start_date, end_date, status'
-      })
-      return { rows, errors }
-    }
-
-    // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim()
-      if (!line) continue
-
-      // Handle quoted values with commas
-      const values: string[] = []
-      let current = ''
-      let inQuotes = false
-      for (const char of line) {
-        if (char === '"') {
-          inQuotes = !inQuotes
-        } else if (char === ',' && !inQuotes) {
-          values.push(current.trim())
-          current = ''
-        } else {
-          current += char
-        }
-      }
-      values.push(current.trim())
-
-      const unitId = values[unitIdIdx]?.replace(/"/g, '')
-      const startDate = values[startIdx]?.replace(/"/g, '')
-      const endDate = values[endIdx]?.replace(/"/g, '')
-      const status = values[statusIdx]?.replace(/"/g, '').toLowerCase() as AvailabilityStatus
-      const client = clientIdx !== -1 ? values[clientIdx]?.replace(/"/g, '') : undefined
-      const notes = notesIdx !== -1 ? values[notesIdx]?.replace(/"/g, '') : undefined
+    // Parse data rows (row 0 is the header)
+    for (let i = 1; i < table.length; i++) {
+      const values = table[i].map(v => String(v).trim())
+      if (values.every(v => !v)) continue
+
+      const cell = (field: ImportField) => (mapping[field] >= 0 ? values[mapping[field]] : undefined)
+      const unitId = cell('unit_id')
+      const startDate = cell('start_date')
+      const endDate = cell('end_date')
+      const status = cell('status')?.toLowerCase() as AvailabilityStatus
+      const client = cell('client')
+      const notes = cell('notes')
+      const holdPosition = cell('hold_position')
+      const holdExpires = cell('hold_expires')
 
       // Validate
       if (!unitId) {
@@ -96,43 +105,89 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
         continue
       }
 
-      if (!startDate || !isValidDate(startDate)) {
+      const parsedStart = startDate ? parseDateOnly(startDate) : null
+      if (!parsedStart) {
         errors.push({ row: i + 1, message: `Invalid start date: ${startDate}` })
         continue
       }
 
-      if (!endDate || !isValidDate(endDate)) {
+      const parsedEnd = endDate ? parseDateOnly(endDate) : null
+      if (!parsedEnd) {
         errors.push({ row: i + 1, message: `Invalid end date: ${endDate}` })
         continue
       }
 
+      if (parsedEnd < parsedStart) {
+        errors.push({ row: i + 1, message: `End date ${endDate} is before start date ${startDate}` })
+        continue
+      }
+
       if (!validStatuses.includes(status)) {
         errors.push({ row: i + 1, message: `Invalid status: ${status}. Must be: available, sold, hold, or pending` })
         continue
       }
 
+      const parsedPosition = holdPosition ? parseHoldPosition(holdPosition) : null
+      if (holdPosition && !parsedPosition) {
+        errors.push({ row: i + 1, message: `Invalid hold position: ${holdPosition}. Must be 1 or 2` })
+        continue
+      }
+
+      const parsedExpires = holdExpires ? parseDateOnly(holdExpires) : null
+      if (holdExpires && !parsedExpires) {
+        errors.push({ row: i + 1, message: `Invalid hold expiry date: ${holdExpires}` })
+        continue
+      }
+
       rows.push({
         unitId,
-        startDate: normalizeDate(startDate),
-        endDate: normalizeDate(endDate),
+        startDate: parsedStart,
+        endDate: parsedEnd,
         status,
         client: client || undefined,
         notes: notes || undefined,
+        // Position and expiry only mean something on holds
+        holdPosition: status === 'hold' ? parsedPosition || undefined : undefined,
+        holdExpires: status === 'hold' ? parsedExpires || undefined : undefined,
       })
     }
 
     return { rows, errors }
   }
 
-  const isValidDate = (dateStr: string): boolean => {
-    // Support various formats: YYYY-MM-DD, MM/DD/YYYY, M/D/YYYY
-    const date = new Date(dateStr)
-    return !isNaN(date.getTime())
+  // Parse rows once every required field has a column
+  const parseWithMapping = (nextTable: string[][], nextMapping: ColumnMapping) => {
+    if (!isMappingComplete(nextMapping)) {
+      setParsedData([])
+      setErrors([])
+      return
+    }
+
+    const { rows, errors } = parseTable(nextTable, nextMapping)
+    setParsedData(rows)
+    setErrors(errors)
   }
 
-  const normalizeDate = (dateStr: string): string => {
-    const date = new Date(dateStr)
-    return date.toISOString().split('T')[0]
+  const applyTable = (nextTable: string[][]) => {
+    if (nextTable.length === 0) {
+      setTable(null)
+      setMapping(null)
+      setErrors([{ row: 0, message: 'The file is empty' }])
+      return
+    }
+
+    const nextMapping = detectColumnMapping(nextTable[0])
+    setTable(nextTable)
+    setMapping(nextMapping)
+    setShowMapping(!isMappingComplete(nextMapping))
+    parseWithMapping(nextTable, nextMapping)
+  }
+
+  const handleMappingChange = (field: ImportField, index: number) => {
+    if (!table || !mapping) return
+    const nextMapping = { ...mapping, [field]: index }
+    setMapping(nextMapping)
+    parseWithMapping(table, nextMapping)
   }
 
   const handleFile = async (selectedFile: File) => {
@@ -140,12 +195,29 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
     setIsProcessing(true)
     setErrors([])
     setParsedData([])
+    setWorkbook(null)
+    setTable(null)
+    setMapping(null)
 
     try {
-      const text = await selectedFile.text()
-      const { rows, errors } = parseCSV(text)
-      setParsedData(rows)
-      setErrors(errors)
+      if (getSpreadsheetFormat(selectedFile) === 'xlsx') {
+        if (!(await isExcelSupported())) {
+          setErrors([{ row: 0, message: 'Excel import is not available in this build. Save the sheet as CSV and upload that instead.' }])
+          setIsProcessing(false)
+          return
+        }
+        const book = await readWorkbook(selectedFile)
+        if (book.sheetNames.length === 0) {
+          setErrors([{ row: 0, message: 'The workbook has no sheets' }])
+        } else {
+          setWorkbook(book)
+          setSheetName(book.sheetNames[0])
+          applyTable(book.sheets[book.sheetNames[0]])
+        }
+      } else {
+        const text = await selectedFile.text()
+        applyTable(parseCSV(text, detectDelimiter(text)))
+      }
     } catch (e) {
       setErrors([{ row: 0, message: 'Failed to read file' }])
     }
@@ -153,15 +225,21 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
     setIsProcessing(false)
   }
 
+  const handleSheetChange = (name: string) => {
+    if (!workbook) return
+    setSheetName(name)
+    applyTable(workbook.sheets[name])
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
 
     const droppedFile = e.dataTransfer.files[0]
-    if (droppedFile && (droppedFile.name.endsWith('.csv') || droppedFile.type === 'text/csv')) {
+    if (droppedFile && getSpreadsheetFormat(droppedFile)) {
       handleFile(droppedFile)
     } else {
-      setErrors([{ row: 0, message: 'Please upload a CSV file' }])
+      setErrors([{ row: 0, message: 'Please upload a CSV, TSV or Excel (.xlsx) file' }])
     }
   }
 
@@ -172,7 +250,9 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
     }
   }
 
-  const handleImport = () => {
+  const fileName = file?.name || 'Untitled import'
+
+  const buildImportedAvailability = (): Map<string, UnitAvailability> => {
     const availabilityMap = new Map<string, UnitAvailability>()
     const now = new Date().toISOString()
 
@@ -183,6 +263,8 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
         status: row.status,
         client: row.client,
         notes: row.notes,
+        holdPosition: row.holdPosition,
+        holdExpires: row.holdExpires,
       }
 
       if (availabilityMap.has(row.unitId)) {
@@ -192,11 +274,50 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
           unitId: row.unitId,
           periods: [period],
           lastUpdated: now,
+          source: fileName,
         })
       }
     })
 
-    onImport(availabilityMap)
+    return availabilityMap
+  }
+
+  // Overlapping periods for the same unit within the file (indices refer to parsedData)
+  const rowConflicts: RowConflict[] = []
+  const rowsByUnit = new Map<string, number[]>()
+  parsedData.forEach((row, i) => {
+    rowsByUnit.set(row.unitId, [...(rowsByUnit.get(row.unitId) || []), i])
+  })
+  rowsByUnit.forEach((indices, unitId) => {
+    findPeriodConflicts(indices.map(i => parsedData[i])).forEach(conflict => {
+      rowConflicts.push({
+        ...conflict,
+        unitId,
+        first: indices[conflict.first],
+        second: indices[conflict.second],
+      })
+    })
+  })
+  const conflictRows = new Set(rowConflicts.flatMap(c => [c.first, c.second]))
+
+  // What the loaded availability will look like after confirming
+  const imported = buildImportedAvailability()
+  const merged = mergeAvailability(existing, imported, strategy)
+  const changes = diffAvailability(existing, merged)
+  const unitsWithMergedConflicts = Array.from(imported.keys()).filter(unitId =>
+    findPeriodConflicts(merged.get(unitId)?.periods || []).some(c => c.kind === 'contradiction')
+  )
+  const periodsAdded = changes.reduce((sum, c) => sum + c.added.length, 0)
+  const periodsRemoved = changes.reduce((sum, c) => sum + c.removed.length, 0)
+
+  const describeRow = (row: ParsedRow) =>
+    `${row.status}${row.client ? ` (${row.client})` : ''} ${formatDateRange(row.startDate, row.endDate)}`
+
+  const handleImport = () => {
+    if (rememberMapping && table && mapping) {
+      saveMapping(table[0], mapping)
+    }
+    onImport(merged, fileName)
     onClose()
   }
 
@@ -216,7 +337,7 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
         <div className="p-4 border-b border-gray-200 flex items-center justify-between">
           <div>
             <h2 className="text-lg font-bold text-gray-800">Import Availability</h2>
-            <p className="text-sm text-gray-500">Upload a CSV file with unit availability data</p>
+            <p className="text-sm text-gray-500">Upload a CSV, TSV or Excel file with unit availability data</p>
           </div>
           <button
             onClick={onClose}
@@ -246,7 +367,7 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.xlsx"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -254,7 +375,7 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
             </svg>
             <p className="text-sm text-gray-600 mb-2">
-              {file ? file.name : 'Drop your CSV file here or click to browse'}
+              {file ? file.name : 'Drop your CSV, TSV or Excel file here or click to browse'}
             </p>
             <p className="text-xs text-gray-400">
               Required columns: unit_id, start_date, end_date, status
@@ -264,10 +385,14 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
           {/* Format Help */}
           <details className="bg-gray-50 rounded-lg p-3">
             <summary className="text-sm font-medium text-gray-700 cursor-pointer">
-              CSV Format Guide
+              File Format Guide
             </summary>
             <div className="mt-3 text-xs text-gray-600 space-y-2">
-              <p>Your CSV should have the following columns:</p>
+              <p>
+                Comma, tab or semicolon separated text files and Excel workbooks (.xlsx) are supported.
+                The first row must hold column headers. These names are recognised automatically;
+                any others can be mapped by hand after upload:
+              </p>
               <table className="w-full text-left">
                 <thead>
                   <tr className="border-b border-gray-200">
@@ -283,6 +408,8 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
                   <tr><td className="py-1 pr-4 font-mono">status</td><td className="pr-4">Yes</td><td>available, sold, hold, pending</td></tr>
                   <tr><td className="py-1 pr-4 font-mono">client</td><td className="pr-4">No</td><td>Client/advertiser name</td></tr>
                   <tr><td className="py-1 pr-4 font-mono">notes</td><td className="pr-4">No</td><td>Additional notes</td></tr>
+                  <tr><td className="py-1 pr-4 font-mono">hold_position</td><td className="pr-4">No</td><td>1 or 2 (1st/2nd hold), holds only</td></tr>
+                  <tr><td className="py-1 pr-4 font-mono">hold_expires</td><td className="pr-4">No</td><td>Last day the hold stands, holds only</td></tr>
                 </tbody>
               </table>
               <p className="mt-2 pt-2 border-t border-gray-200">
@@ -291,6 +418,80 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
             </div>
           </details>
 
+          {/* Sheet Picker */}
+          {workbook && workbook.sheetNames.length > 1 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="import-sheet" className="text-sm font-medium text-gray-700">Sheet</label>
+              <select
+                id="import-sheet"
+                value={sheetName}
+                onChange={(e) => handleSheetChange(e.target.value)}
+                className="flex-1 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+              >
+                {workbook.sheetNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Column Mapping */}
+          {table && mapping && (
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-700">Column Mapping</h4>
+                {isMappingComplete(mapping) && (
+                  <button
+                    onClick={() => setShowMapping(!showMapping)}
+                    className="text-xs text-capitol-red hover:text-capitol-red-dark font-medium"
+                  >
+                    {showMapping ? 'Hide' : 'Edit'}
+                  </button>
+                )}
+              </div>
+              {!isMappingComplete(mapping) && (
+                <p className="text-xs text-amber-700 mt-1">
+                  Some required columns weren&apos;t recognised. Choose which column holds each field.
+                </p>
+              )}
+              {showMapping && (
+                <>
+                  <div className="grid grid-cols-2 gap-2 mt-3">
+                    {IMPORT_FIELDS.map(definition => (
+                      <label key={definition.field} className="text-xs">
+                        <span className="block text-gray-500 mb-1">
+                          {definition.label}
+                          {definition.required && <span className="text-capitol-red"> *</span>}
+                        </span>
+                        <select
+                          value={mapping[definition.field]}
+                          onChange={(e) => handleMappingChange(definition.field, Number(e.target.value))}
+                          className={`w-full px-2 py-1.5 bg-gray-50 border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-capitol-red ${
+                            definition.required && mapping[definition.field] < 0 ? 'border-amber-400' : 'border-gray-200'
+                          }`}
+                        >
+                          <option value={-1}>{definition.required ? 'Select column…' : 'Not in file'}</option>
+                          {table[0].map((header, i) => (
+                            <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 mt-3 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={rememberMapping}
+                      onChange={(e) => setRememberMapping(e.target.checked)}
+                      className="rounded border-gray-300 text-capitol-red focus:ring-capitol-red"
+                    />
+                    Remember this mapping for the next import
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Processing State */}
           {isProcessing && (
             <div className="text-center py-8">
@@ -334,12 +535,19 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
                     </thead>
                     <tbody className="divide-y divide-gray-100">
                       {parsedData.slice(0, 20).map((row, i) => (
-                        <tr key={i} className="hover:bg-gray-50">
-                          <td className="py-2 px-3 font-mono">{row.unitId}</td>
+                        <tr
+                          key={i}
+                          className={conflictRows.has(i) ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}
+                          title={conflictRows.has(i) ? 'Overlaps another period for this unit' : undefined}
+                        >
+                          <td className="py-2 px-3 font-mono">
+                            {conflictRows.has(i) && <span className="text-amber-500 mr-1">⚠</span>}
+                            {row.unitId}
+                          </td>
                           <td className="py-2 px-3">{row.startDate} → {row.endDate}</td>
                           <td className="py-2 px-3">
                             <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(row.status)}`}>
-                              {row.status}
+                              {row.status === 'hold' ? formatHold(row) : row.status}
                             </span>
                           </td>
                           <td className="py-2 px-3 text-gray-500">{row.client || '-'}</td>
@@ -356,6 +564,92 @@ export default function AvailabilityImport({ onImport, onClose, unitIds }: Avail
               </div>
             </div>
           )}
+
+          {/* Conflicts within the file */}
+          {rowConflicts.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <h4 className="text-sm font-medium text-amber-800 mb-2">
+                {rowConflicts.length} overlapping period{rowConflicts.length > 1 ? 's' : ''} in this file
+              </h4>
+              <ul className="text-xs text-amber-700 space-y-1 max-h-32 overflow-y-auto">
+                {rowConflicts.map((conflict, i) => (
+                  <li key={i}>
+                    <span className="font-medium font-mono">{conflict.unitId}:</span>{' '}
+                    {conflict.kind === 'contradiction' ? 'Contradicts' : 'Duplicates'} —{' '}
+                    {describeRow(parsedData[conflict.first])} overlaps {describeRow(parsedData[conflict.second])}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Merge Strategy */}
+          {parsedData.length > 0 && existing.size > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Merge with loaded availability</h4>
+              <div className="grid grid-cols-3 gap-2">
+                {mergeStrategies.map(option => (
+                  <label
+                    key={option.value}
+                    className={`p-2 rounded-lg border cursor-pointer transition-colors ${
+                      strategy === option.value
+                        ? 'border-capitol-red bg-capitol-red/5'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="merge-strategy"
+                      value={option.value}
+                      checked={strategy === option.value}
+                      onChange={() => setStrategy(option.value)}
+                      className="sr-only"
+                    />
+                    <span className="block text-xs font-medium text-gray-800">{option.label}</span>
+                    <span className="block text-[11px] text-gray-500 mt-0.5">{option.description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Changes */}
+          {parsedData.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">
+                Changes ({changes.length} unit{changes.length !== 1 ? 's' : ''}, +{periodsAdded} / -{periodsRemoved} periods)
+              </h4>
+              {unitsWithMergedConflicts.length > 0 && (
+                <p className="text-xs text-amber-700 mb-2">
+                  ⚠ {unitsWithMergedConflicts.length} unit{unitsWithMergedConflicts.length > 1 ? 's' : ''} will have contradictory periods after this merge: {unitsWithMergedConflicts.slice(0, 8).join(', ')}
+                  {unitsWithMergedConflicts.length > 8 && '…'}
+                </p>
+              )}
+              {changes.length > 0 ? (
+                <div className="border border-gray-200 rounded-lg max-h-48 overflow-y-auto divide-y divide-gray-100">
+                  {changes.slice(0, 30).map(change => (
+                    <div key={change.unitId} className="px-3 py-2 text-xs">
+                      <span className="font-mono font-medium text-gray-800">{change.unitId}</span>
+                      {change.isNew && <span className="ml-2 text-gray-400">new</span>}
+                      {change.removed.map((period, i) => (
+                        <p key={`r${i}`} className="text-red-600">- {describeRow({ ...period, unitId: change.unitId })}</p>
+                      ))}
+                      {change.added.map((period, i) => (
+                        <p key={`a${i}`} className="text-green-700">+ {describeRow({ ...period, unitId: change.unitId })}</p>
+                      ))}
+                    </div>
+                  ))}
+                  {changes.length > 30 && (
+                    <div className="bg-gray-50 px-3 py-2 text-xs text-gray-500 text-center">
+                      + {changes.length - 30} more units
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">This import matches the loaded availability</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
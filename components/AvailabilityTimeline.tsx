@@ -0,0 +1,226 @@
+'use client'
+
+import { Unit, UnitAvailability, AvailabilityStatus, DateRange } from '@/lib/types'
+import {
+  formatDateRange,
+  formatHold,
+  getAvailableGaps,
+  getNextAvailablePeriod,
+  getStatusDisplay,
+  isHoldExpired,
+} from '@/lib/availability'
+import { addDays, daysBetween, formatDateOnly } from '@/lib/dates'
+import { getCalendarFor, getPeriodsInRange } from '@/lib/periodCalendar'
+
+interface AvailabilityTimelineProps {
+  units: Unit[]
+  availability: Map<string, UnitAvailability>
+  flight: DateRange
+  compact?: boolean // Single strip without labels, for the info window
+  onUnitClick?: (unit: Unit) => void
+}
+
+const legendStatuses: AvailabilityStatus[] = ['available', 'hold', 'pending', 'sold']
+
+export default function AvailabilityTimeline({
+  units,
+  availability,
+  flight,
+  compact = false,
+  onUnitClick,
+}: AvailabilityTimelineProps) {
+  // Visible window: a little lead-in before the flight and a few cycles after it
+  const windowStart = addDays(flight.startDate, compact ? -7 : -14)
+  const minEnd = addDays(windowStart, compact ? 83 : 111)
+  const flightTail = addDays(flight.endDate, compact ? 28 : 56)
+  const windowEnd = flightTail > minEnd ? flightTail : minEnd
+  const totalDays = daysBetween(windowStart, windowEnd) + 1
+
+  // Percentage offset of the start of a day within the window
+  const offset = (date: string) => {
+    const days = daysBetween(windowStart, date)
+    return Math.min(Math.max(days / totalDays, 0), 1) * 100
+  }
+
+  const barStyle = (startDate: string, endDate: string) => {
+    const left = offset(startDate)
+    const right = offset(addDays(endDate, 1))
+    return { left: `${left}%`, width: `${Math.max(right - left, 0.5)}%` }
+  }
+
+  const isVisible = (range: DateRange) => range.startDate <= windowEnd && range.endDate >= windowStart
+
+  // Month boundaries for the header and gridlines
+  const monthTicks: { date: string; label: string }[] = []
+  for (let date = windowStart; date <= windowEnd; date = addDays(date, 1)) {
+    if (date.endsWith('-01') || date === windowStart) {
+      monthTicks.push({
+        date,
+        label: formatDateOnly(date, {
+          month: 'short',
+          ...(date.slice(5, 7) === '01' ? { year: 'numeric' } : {}),
+        }),
+      })
+    }
+  }
+
+  // Sales periods on the standard calendar, labelled by number
+  const salesPeriods = getPeriodsInRange(windowStart, windowEnd)
+
+  const renderTrack = (unit: Unit) => {
+    const unitAvail = availability.get(unit.id)
+    const periods = (unitAvail?.periods || []).filter(isVisible)
+    const calendar = getCalendarFor(unit)
+    const gaps = getAvailableGaps(unitAvail, windowStart, windowEnd, calendar)
+    const nextOpen = getNextAvailablePeriod(unitAvail, flight.startDate, calendar)
+
+    return (
+      <div className={`relative flex-1 bg-gray-50 rounded ${compact ? 'h-5' : 'h-6'}`}>
+        {/* Month gridlines */}
+        {monthTicks.slice(1).map(tick => (
+          <span
+            key={tick.date}
+            className="absolute top-0 bottom-0 w-px bg-gray-200"
+            style={{ left: `${offset(tick.date)}%` }}
+          />
+        ))}
+
+        {/* Flight window */}
+        <span
+          className="absolute top-0 bottom-0 bg-capitol-red/10 border-x border-capitol-red/40"
+          style={barStyle(flight.startDate, flight.endDate)}
+        />
+
+        {/* Open sales periods */}
+        {gaps.map(gap => (
+          <span
+            key={gap.startDate}
+            className="absolute top-0 bottom-0 bg-green-100/70"
+            style={barStyle(gap.startDate, gap.endDate)}
+            title={`Open ${formatDateRange(gap.startDate, gap.endDate)}`}
+          />
+        ))}
+
+        {/* Booked periods */}
+        {periods.map((period, i) => {
+          const display = getStatusDisplay(period.status)
+          const details = [
+            `${display.label}: ${formatDateRange(period.startDate, period.endDate)}`,
+            formatHold(period),
+            period.client,
+            period.notes,
+          ].filter(Boolean).join('\n')
+
+          return (
+            <span
+              key={i}
+              className={`absolute top-1 bottom-1 rounded-sm ${display.dotColor} ${
+                isHoldExpired(period) ? 'opacity-30' : 'opacity-90 hover:opacity-100'
+              }`}
+              style={barStyle(period.startDate, period.endDate)}
+              title={details}
+            />
+          )
+        })}
+
+        {/* Next sellable 4-week period */}
+        {nextOpen && isVisible(nextOpen) && (
+          <span
+            className="absolute top-0 bottom-0 rounded-sm ring-2 ring-green-600 ring-inset pointer-events-none"
+            style={barStyle(nextOpen.startDate, nextOpen.endDate)}
+            title={`Next available: ${nextOpen.label} (${formatDateRange(nextOpen.startDate, nextOpen.endDate)})`}
+          />
+        )}
+
+        {!unitAvail && !compact && (
+          <span className="absolute inset-y-0 right-1 flex items-center text-[10px] text-gray-400 italic">
+            No data
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-xs">
+      {/* Month header */}
+      <div className="flex">
+        {!compact && <div className="w-32 flex-shrink-0" />}
+        <div className="relative flex-1 h-4">
+          {monthTicks.map(tick => (
+            <span
+              key={tick.date}
+              className="absolute text-[10px] text-gray-400 whitespace-nowrap"
+              style={{ left: `${offset(tick.date)}%` }}
+            >
+              {tick.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Period header */}
+      <div className="flex mb-1">
+        {!compact && <div className="w-32 flex-shrink-0" />}
+        <div className="relative flex-1 h-4 overflow-hidden">
+          {salesPeriods.map(period => (
+            <span
+              key={period.label}
+              className="absolute top-0 bottom-0 border-l border-gray-300 pl-0.5 text-[9px] text-gray-500 whitespace-nowrap overflow-hidden"
+              style={barStyle(period.startDate, period.endDate)}
+              title={`${period.label}: ${formatDateRange(period.startDate, period.endDate)}`}
+            >
+              {period.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Rows */}
+      <div className={compact ? '' : 'space-y-1'}>
+        {units.map(unit => (
+          <div key={unit.id} className="flex items-center gap-2">
+            {!compact && (
+              <button
+                onClick={() => onUnitClick?.(unit)}
+                className="w-32 flex-shrink-0 text-left truncate hover:text-capitol-red"
+                title={unit.name}
+              >
+                <span className="font-medium text-capitol-gray">{unit.id}</span>
+                <span className="text-gray-400"> · {unit.market}</span>
+              </button>
+            )}
+            {renderTrack(unit)}
+          </div>
+        ))}
+      </div>
+
+      {/* Legend */}
+      {!compact && (
+        <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-gray-100 text-[11px] text-gray-600">
+          {legendStatuses.map(status => {
+            const display = getStatusDisplay(status)
+            return (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`w-3 h-2 rounded-sm ${display.dotColor}`} />
+                {display.label}
+              </span>
+            )
+          })}
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-2 rounded-sm bg-green-100" />
+            Open window
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-2 rounded-sm ring-2 ring-green-600 ring-inset" />
+            Next available
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-2 rounded-sm bg-capitol-red/10 border-x border-capitol-red/40" />
+            Flight
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { AvailabilityStatus, ProposalComparison } from '@/lib/types'
+import { formatDateRange, getStatusDisplay } from '@/lib/availability'
+import { getComparisonColor, SHARED_UNIT_COLOR } from '@/lib/comparison'
+import { formatCurrency } from '@/lib/pricing'
+
+const STATUS_ORDER: AvailabilityStatus[] = ['available', 'hold', 'pending', 'sold']
+
+interface ComparisonPanelProps {
+  comparison: ProposalComparison
+  onClose: () => void
+}
+
+export default function ComparisonPanel({ comparison, onClose }: ComparisonPanelProps) {
+  return (
+    <aside className="w-full sm:w-96 flex-shrink-0 bg-white border-r border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-800">Compare Proposals</h2>
+          <p className="text-sm text-gray-500">
+            {comparison.options.length} options · {comparison.sharedUnitIds.length} shared unit
+            {comparison.sharedUnitIds.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          aria-label="Close comparison"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Options */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {comparison.options.map((option, i) => {
+          const { pricing } = option
+          const statuses = STATUS_ORDER.filter(status => option.statusCounts[status])
+
+          return (
+            <div
+              key={option.proposalId}
+              className="rounded-lg border border-gray-200 border-l-4 p-3"
+              style={{ borderLeftColor: getComparisonColor(i) }}
+            >
+              <p className="font-medium text-sm text-capitol-gray truncate">{option.title}</p>
+              <p className="text-xs text-gray-500">
+                Flight {formatDateRange(option.flight.startDate, option.flight.endDate)}
+              </p>
+
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 mt-2 text-xs">
+                <div>
+                  <dt className="text-gray-400">Units</dt>
+                  <dd className="font-semibold text-gray-700">
+                    {option.unitIds.length}
+                    <span className="font-normal text-gray-500"> ({option.uniqueUnitIds.length} unique)</span>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-400">Weekly Imps</dt>
+                  <dd className="font-semibold text-gray-700">{option.weeklyImpressions.toLocaleString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-400">Net Cost</dt>
+                  <dd className="font-semibold text-gray-700">
+                    {pricing.lines.length > 0 ? formatCurrency(pricing.net) : '-'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-400">CPM</dt>
+                  <dd className="font-semibold text-gray-700">
+                    {pricing.cpm !== null ? formatCurrency(pricing.cpm, true) : '-'}
+                  </dd>
+                </div>
+                <div className="col-span-2">
+                  <dt className="text-gray-400">Markets</dt>
+                  <dd className="text-gray-700">{option.markets.join(', ') || '-'}</dd>
+                </div>
+                <div className="col-span-2">
+                  <dt className="text-gray-400">Availability</dt>
+                  <dd className="flex flex-wrap gap-1 mt-0.5">
+                    {statuses.map(status => {
+                      const display = getStatusDisplay(status)
+                      return (
+                        <span key={status} className={`px-1.5 py-0.5 rounded font-medium ${display.color}`}>
+                          {option.statusCounts[status]} {display.label}
+                        </span>
+                      )
+                    })}
+                    {statuses.length === 0 && <span className="text-gray-500">No availability loaded</span>}
+                  </dd>
+                </div>
+              </dl>
+
+              {pricing.unpricedUnitIds.length > 0 && (
+                <p className="text-[11px] text-amber-700 mt-1.5">
+                  {pricing.unpricedUnitIds.length} unit{pricing.unpricedUnitIds.length !== 1 ? 's' : ''} without a rate card
+                </p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 flex items-center gap-2 text-xs text-gray-500">
+        <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: SHARED_UNIT_COLOR }} />
+        Units in more than one option. Each option&apos;s own units use its color.
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { DateRange, PeriodCalendar } from '@/lib/types'
+import { generate4WeekPeriod } from '@/lib/availability'
+import { daysBetween } from '@/lib/dates'
+import { DEFAULT_CALENDAR, getPeriodContaining, getPeriodsInRange } from '@/lib/periodCalendar'
+
+interface FlightPickerProps {
+  flight: DateRange
+  onFlightChange: (flight: DateRange) => void
+  calendar?: PeriodCalendar // Sales calendar the dates snap to
+}
+
+export default function FlightPicker({ flight, onFlightChange, calendar = DEFAULT_CALENDAR }: FlightPickerProps) {
+  // Snap picked dates to the start / end of their sales period
+  const handleStartChange = (date: string) => {
+    if (!date) return
+    const startDate = getPeriodContaining(date, calendar).startDate
+    const endDate = flight.endDate < startDate ? getPeriodContaining(startDate, calendar).endDate : flight.endDate
+    onFlightChange({ startDate, endDate })
+  }
+
+  const handleEndChange = (date: string) => {
+    if (!date || date < flight.startDate) return
+    onFlightChange({ ...flight, endDate: getPeriodContaining(date, calendar).endDate })
+  }
+
+  const days = daysBetween(flight.startDate, flight.endDate) + 1
+  const weeks = Math.round((days / 7) * 10) / 10
+  const periods = getPeriodsInRange(flight.startDate, flight.endDate, calendar)
+  const periodLabel = periods.length > 1
+    ? `${periods[0].label} – ${periods[periods.length - 1].label}`
+    : periods[0]?.label
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs font-medium text-gray-500">Campaign Flight</label>
+        <button
+          onClick={() => onFlightChange(generate4WeekPeriod(undefined, calendar))}
+          className="text-xs text-capitol-red hover:text-capitol-red-dark"
+          title="Reset to the next sales period"
+        >
+          Next period
+        </button>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <input
+          type="date"
+          value={flight.startDate}
+          onChange={(e) => handleStartChange(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-capitol-red"
+          aria-label="Flight start date"
+        />
+        <span className="text-xs text-gray-400">to</span>
+        <input
+          type="date"
+          value={flight.endDate}
+          min={flight.startDate}
+          onChange={(e) => handleEndChange(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-capitol-red"
+          aria-label="Flight end date"
+        />
+      </div>
+      <p className="text-[10px] text-gray-400 mt-1">
+        {periodLabel && <span className="font-medium text-gray-500">{periodLabel}</span>}
+        {periodLabel && ' · '}
+        {weeks} week{weeks !== 1 ? 's' : ''} ({days} days)
+      </p>
+    </div>
+  )
+}
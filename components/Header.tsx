@@ -1,20 +1,30 @@
 'use client'
 
+import { BRANDING } from '@/lib/branding'
+
 interface HeaderProps {
   selectedCount?: number
   onShareClick?: () => void
   isShareMode?: boolean
+  proposalTitle?: string // Title of the open proposal, if any
+  onProposalsClick?: () => void
 }
 
-export default function Header({ selectedCount = 0, onShareClick, isShareMode = false }: HeaderProps) {
+export default function Header({
+  selectedCount = 0,
+  onShareClick,
+  isShareMode = false,
+  proposalTitle,
+  onProposalsClick,
+}: HeaderProps) {
   return (
     <header className="bg-capitol-red text-white px-6 py-3 shadow-lg z-50">
       <div className="flex items-center justify-between max-w-full">
         {/* Logo */}
         <div className="flex items-center gap-4">
           <img
-            src="/capitol-logo.webp"
-            alt="Capitol Outdoor"
+            src={BRANDING.logo}
+            alt={BRANDING.companyName}
             className="h-12 w-auto"
           />
         </div>
@@ -28,6 +38,19 @@ export default function Header({ selectedCount = 0, onShareClick, isShareMode =
 
         {/* Actions */}
         <div className="flex items-center gap-4">
+          {!isShareMode && onProposalsClick && (
+            <button
+              onClick={onProposalsClick}
+              className="text-sm text-white/90 hover:text-white flex items-center gap-2 max-w-xs"
+              title="Saved proposals"
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+              </svg>
+              <span className="truncate">{proposalTitle || 'Proposals'}</span>
+            </button>
+          )}
+
           {!isShareMode && selectedCount > 0 && (
             <>
               <span className="text-sm text-white/80">
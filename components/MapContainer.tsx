@@ -2,7 +2,9 @@
 
 import { useCallback, useState, useRef, useEffect, useMemo } from 'react'
 import { GoogleMap, useJsApiLoader, MarkerF, InfoWindowF, CircleF, TrafficLayer } from '@react-google-maps/api'
-import { Unit, UnitAvailability } from '@/lib/types'
+import { Unit, UnitAvailability, AvailabilityStatus, DateRange, MapView } from '@/lib/types'
+import { getFlightStatus, getStatusDisplay } from '@/lib/availability'
+import { BRANDING } from '@/lib/branding'
 import UnitInfoWindow from './UnitInfoWindow'
 
 // Libraries to load with Google Maps
@@ -19,6 +21,11 @@ interface MapContainerProps {
   searchLocation?: { lat: number; lng: number } | null
   onGoogleLoaded?: (isLoaded: boolean) => void
   availability?: Map<string, UnitAvailability>
+  flight?: DateRange
+  fitToUnits?: boolean // Frame all units instead of using center/zoom
+  onViewChange?: (view: MapView) => void // Called when the map settles after a pan or zoom
+  unitColors?: Map<string, string> // Marker fill by unit ID, replacing type and selection colors
+  colorLegend?: { label: string; color: string }[] // Shown instead of unit types when unitColors is set
 }
 
 const mapContainerStyle = {
@@ -34,6 +41,8 @@ const defaultCenter = {
 const defaultZoom = 4
 const FOCUSED_UNIT_ZOOM = 15
 const SEARCH_LOCATION_ZOOM = 11
+const FIT_BOUNDS_PADDING = 60 // Pixels kept clear around units when framing them
+const SINGLE_UNIT_SPAN = 0.005 // Degrees either side of a lone unit, roughly a few blocks
 
 // Map styling for Capitol branding
 const mapStyles = [
@@ -106,14 +115,8 @@ const mapStyles = [
   },
 ]
 
-// Marker colors by type
-const markerColors: Record<string, string> = {
-  billboard: '#C41230', // Capitol red
-  wallscape: '#7C3AED', // Purple
-  digital: '#10B981', // Green
-  transit: '#F59E0B', // Orange
-  kiosk: '#EC4899', // Pink
-}
+// Marker colors by type, from the branding config
+const markerColors: Record<string, string> = BRANDING.unitTypeColors
 
 // Legend labels for marker types
 const markerLabels: Record<string, string> = {
@@ -124,6 +127,9 @@ const markerLabels: Record<string, string> = {
   kiosk: 'Kiosks',
 }
 
+// Statuses shown in the legend when availability is loaded
+const legendStatuses: AvailabilityStatus[] = ['available', 'hold', 'pending', 'sold']
+
 // POI types to search for (expanded list)
 const POI_CATEGORIES = [
   { type: 'cafe', label: 'Coffee Shops', color: '#8B4513' },
@@ -172,6 +178,11 @@ export default function MapContainer({
   searchLocation,
   onGoogleLoaded,
   availability,
+  flight,
+  fitToUnits = false,
+  onViewChange,
+  unitColors,
+  colorLegend,
 }: MapContainerProps) {
   const [activeMarker, setActiveMarker] = useState<string | null>(null)
   const [showTraffic, setShowTraffic] = useState(false)
@@ -309,9 +320,41 @@ export default function MapContainer({
     }
   }, [searchLocation])
 
+  // Frame the units with padding; a lone unit gets a small area around it
+  // so fitBounds doesn't zoom all the way in
+  const fitMapToUnits = useCallback((map: google.maps.Map) => {
+    if (units.length === 0) return
+
+    const bounds = new google.maps.LatLngBounds()
+    units.forEach(unit => bounds.extend({ lat: unit.lat, lng: unit.lng }))
+    if (units.length === 1) {
+      bounds.extend({ lat: units[0].lat + SINGLE_UNIT_SPAN, lng: units[0].lng + SINGLE_UNIT_SPAN })
+      bounds.extend({ lat: units[0].lat - SINGLE_UNIT_SPAN, lng: units[0].lng - SINGLE_UNIT_SPAN })
+    }
+    map.fitBounds(bounds, FIT_BOUNDS_PADDING)
+  }, [units])
+
+  useEffect(() => {
+    if (fitToUnits && mapRef.current) {
+      fitMapToUnits(mapRef.current)
+    }
+  }, [fitToUnits, fitMapToUnits])
+
   const onLoad = useCallback((map: google.maps.Map) => {
     mapRef.current = map
-  }, [])
+    if (fitToUnits) {
+      fitMapToUnits(map)
+    }
+  }, [fitToUnits, fitMapToUnits])
+
+  const handleIdle = () => {
+    const map = mapRef.current
+    const mapCenter = map?.getCenter()
+    const mapZoom = map?.getZoom()
+    if (onViewChange && mapCenter && mapZoom !== undefined) {
+      onViewChange({ center: { lat: mapCenter.lat(), lng: mapCenter.lng() }, zoom: mapZoom })
+    }
+  }
 
   const onUnmount = useCallback(() => {
     mapRef.current = null
@@ -333,22 +376,24 @@ export default function MapContainer({
 
     const icons = new Map<string, google.maps.Symbol>()
     units.forEach(unit => {
-      const color = markerColors[unit.type] || markerColors.billboard
+      const color = unitColors?.get(unit.id) || markerColors[unit.type] || markerColors.billboard
       const isSelected = selectedIds.has(unit.id)
       const scale = isSelected ? 1.3 : 1
+      // Outline markers with their availability for the flight; fade sold units
+      const status = flight ? getFlightStatus(availability?.get(unit.id), flight) : null
 
       icons.set(unit.id, {
         path: 'M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z',
-        fillColor: isSelected ? '#10B981' : color,
-        fillOpacity: 1,
-        strokeColor: '#ffffff',
-        strokeWeight: 2,
+        fillColor: isSelected && !unitColors ? '#10B981' : color,
+        fillOpacity: status === 'sold' && !isSelected ? 0.45 : 1,
+        strokeColor: status ? getStatusDisplay(status).hexColor : '#ffffff',
+        strokeWeight: status ? 3 : 2,
         scale: scale,
         anchor: new google.maps.Point(12, 24),
       })
     })
     return icons
-  }, [units, selectedIds, isLoaded])
+  }, [units, selectedIds, isLoaded, availability, flight, unitColors])
 
   if (loadError) {
     return (
@@ -382,6 +427,7 @@ export default function MapContainer({
         zoom={zoom}
         onLoad={onLoad}
         onUnmount={onUnmount}
+        onIdle={handleIdle}
         options={{
           styles: mapStyles,
           disableDefaultUI: false,
@@ -400,9 +446,9 @@ export default function MapContainer({
             center={{ lat: focusedUnit.lat, lng: focusedUnit.lng }}
             radius={searchRadius}
             options={{
-              fillColor: '#C41230',
+              fillColor: BRANDING.colors.primary,
               fillOpacity: 0.1,
-              strokeColor: '#C41230',
+              strokeColor: BRANDING.colors.primary,
               strokeOpacity: 0.8,
               strokeWeight: 2,
             }}
@@ -469,6 +515,7 @@ export default function MapContainer({
               onToggleSelect={onToggleSelect}
               onClose={handleInfoWindowClose}
               availability={availability?.get(activeUnit.id)}
+              flight={flight}
             />
           </InfoWindowF>
         )}
@@ -528,21 +575,54 @@ export default function MapContainer({
           </svg>
         </button>
         <div className={`${showLegend ? 'block' : 'hidden'} sm:block p-3 pt-0 sm:pt-3`}>
-          <h4 className="hidden sm:block text-xs font-semibold text-gray-500 mb-2">UNIT TYPES</h4>
+          <h4 className="hidden sm:block text-xs font-semibold text-gray-500 mb-2">
+            {unitColors && colorLegend ? 'COMPARING' : 'UNIT TYPES'}
+          </h4>
           <div className="space-y-1.5">
-            {Object.entries(markerColors).map(([type, color]) => (
-              <div key={type} className="flex items-center gap-2 text-xs">
-                <span
-                  className="w-3 h-3 rounded-full flex-shrink-0"
-                  style={{ backgroundColor: color }}
-                />
-                <span className="text-gray-600">{markerLabels[type]}</span>
+            {unitColors && colorLegend ? (
+              colorLegend.map(entry => (
+                <div key={entry.label} className="flex items-center gap-2 text-xs">
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: entry.color }}
+                  />
+                  <span className="text-gray-600 truncate max-w-[10rem]">{entry.label}</span>
+                </div>
+              ))
+            ) : (
+              <>
+                {Object.entries(markerColors).map(([type, color]) => (
+                  <div key={type} className="flex items-center gap-2 text-xs">
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: color }}
+                    />
+                    <span className="text-gray-600">{markerLabels[type]}</span>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2 text-xs pt-1 border-t border-gray-100 mt-1">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0 bg-green-500" />
+                  <span className="text-gray-600">Selected</span>
+                </div>
+              </>
+            )}
+            {flight && availability && availability.size > 0 && (
+              <div className="pt-1 border-t border-gray-100 mt-1 space-y-1.5">
+                <h4 className="hidden sm:block text-xs font-semibold text-gray-500">FLIGHT STATUS (OUTLINE)</h4>
+                {legendStatuses.map(status => {
+                  const display = getStatusDisplay(status)
+                  return (
+                    <div key={status} className="flex items-center gap-2 text-xs">
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0 border-2 bg-white"
+                        style={{ borderColor: display.hexColor }}
+                      />
+                      <span className="text-gray-600">{display.label}</span>
+                    </div>
+                  )
+                })}
               </div>
-            ))}
-            <div className="flex items-center gap-2 text-xs pt-1 border-t border-gray-100 mt-1">
-              <span className="w-3 h-3 rounded-full flex-shrink-0 bg-green-500" />
-              <span className="text-gray-600">Selected</span>
-            </div>
+            )}
           </div>
         </div>
       </div>
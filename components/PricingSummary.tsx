@@ -0,0 +1,70 @@
+'use client'
+
+import { ProposalPricing } from '@/lib/types'
+import { formatCurrency } from '@/lib/pricing'
+
+interface PricingSummaryProps {
+  pricing: ProposalPricing
+}
+
+export default function PricingSummary({ pricing }: PricingSummaryProps) {
+  if (pricing.lines.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">Rates haven&apos;t been set for these units.</p>
+    )
+  }
+
+  const discountAmount = pricing.mediaGross - pricing.mediaNet
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">{formatCurrency(pricing.gross)}</span>
+          <span className="text-xs text-gray-500">Gross</span>
+        </div>
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">{formatCurrency(pricing.net)}</span>
+          <span className="text-xs text-gray-500">Net</span>
+        </div>
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">
+            {pricing.cpm !== null ? formatCurrency(pricing.cpm, true) : '—'}
+          </span>
+          <span className="text-xs text-gray-500">CPM</span>
+        </div>
+      </div>
+
+      <dl className="space-y-1 text-xs text-gray-600">
+        <div className="flex justify-between">
+          <dt>Media</dt>
+          <dd>{formatCurrency(pricing.mediaGross)}</dd>
+        </div>
+        {discountAmount > 0 && (
+          <div className="flex justify-between text-green-700">
+            <dt>Discount ({pricing.discountPercent}%)</dt>
+            <dd>-{formatCurrency(discountAmount)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <dt>Production</dt>
+          <dd>{formatCurrency(pricing.production)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Install</dt>
+          <dd>{formatCurrency(pricing.install)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt>Flight impressions</dt>
+          <dd>{Math.round(pricing.impressions).toLocaleString()}</dd>
+        </div>
+      </dl>
+
+      {pricing.unpricedUnitIds.length > 0 && (
+        <p className="text-xs text-amber-700 mt-2">
+          Not priced (no rate card): {pricing.unpricedUnitIds.join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Proposal, Unit } from '@/lib/types'
+import { formatDateRange } from '@/lib/availability'
+
+interface ProposalsDrawerProps {
+  proposals: Proposal[]
+  activeProposalId: string | null
+  units: Unit[]
+  selectedCount: number
+  onNew: () => void // Save the current selection as a new proposal
+  onOpen: (id: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  onUpdate: (proposal: Proposal) => void
+  onCloseProposal: () => void // Stop editing the open proposal
+  onResponseFile: (file: File) => void // A client response file downloaded from the share page
+  onCompare: (ids: string[]) => void // Compare two or more saved proposals side by side
+  onClose: () => void
+}
+
+export default function ProposalsDrawer({
+  proposals,
+  activeProposalId,
+  units,
+  selectedCount,
+  onNew,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onUpdate,
+  onCloseProposal,
+  onResponseFile,
+  onCompare,
+  onClose,
+}: ProposalsDrawerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const activeProposal = proposals.find(p => p.id === activeProposalId)
+  const unitsById = new Map(units.map(u => [u.id, u]))
+
+  const handleDelete = (proposal: Proposal) => {
+    if (window.confirm(`Delete "${proposal.title}"? This can't be undone.`)) {
+      onDelete(proposal.id)
+    }
+  }
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]))
+  }
+
+  const handleNoteChange = (proposal: Proposal, unitId: string, notes: string) => {
+    onUpdate({
+      ...proposal,
+      units: proposal.units.map(u => (u.unitId === unitId ? { ...u, notes: notes || undefined } : u)),
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="relative bg-white w-full max-w-md h-full shadow-2xl flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800">Proposals</h2>
+            <p className="text-sm text-gray-500">
+              {proposals.length} saved proposal{proposals.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="ml-auto mr-2 px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-xs font-medium transition-colors"
+            title="Open a response file sent back by a client"
+          >
+            Open response
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) onResponseFile(file)
+              e.target.value = ''
+            }}
+          />
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* Open proposal */}
+          {activeProposal ? (
+            <div className="p-4 border-b border-gray-200 bg-capitol-light space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-capitol-red uppercase tracking-wide">Open proposal</span>
+                <button
+                  onClick={onCloseProposal}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                  title="Close this proposal and clear the selection"
+                >
+                  Close proposal
+                </button>
+              </div>
+              <div>
+                <label htmlFor="proposal-title" className="block text-xs font-medium text-gray-500 mb-1">Title</label>
+                <input
+                  id="proposal-title"
+                  type="text"
+                  value={activeProposal.title}
+                  onChange={(e) => onUpdate({ ...activeProposal, title: e.target.value })}
+                  className="w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+                />
+              </div>
+              <div>
+                <label htmlFor="proposal-advertiser" className="block text-xs font-medium text-gray-500 mb-1">Advertiser</label>
+                <input
+                  id="proposal-advertiser"
+                  type="text"
+                  value={activeProposal.advertiser}
+                  onChange={(e) => onUpdate({ ...activeProposal, advertiser: e.target.value })}
+                  placeholder="Client or brand name"
+                  className="w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Flight {formatDateRange(activeProposal.flight.startDate, activeProposal.flight.endDate)} · Units and
+                flight follow the map selection while the proposal is open
+              </p>
+              {activeProposal.response && (
+                <div className="text-xs bg-white border border-gray-200 rounded-lg p-2">
+                  <p className="font-medium text-gray-700">
+                    Client responded{activeProposal.response.respondent && ` (${activeProposal.response.respondent})`}{' '}
+                    {new Date(activeProposal.response.respondedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                  {activeProposal.response.comment && (
+                    <p className="text-gray-600 italic mt-0.5">{activeProposal.response.comment}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Per-unit notes */}
+              <div className="space-y-2">
+                {activeProposal.units.map(proposalUnit => {
+                  const unit = unitsById.get(proposalUnit.unitId)
+                  return (
+                    <div key={proposalUnit.unitId} className="bg-white rounded-lg border border-gray-200 p-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-700 truncate">
+                          {proposalUnit.unitId}
+                          {unit && <span className="font-normal text-gray-500"> · {unit.market}</span>}
+                        </p>
+                        {proposalUnit.decision === 'approved' && (
+                          <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-green-100 text-green-800">Approved</span>
+                        )}
+                        {proposalUnit.decision === 'rejected' && (
+                          <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-red-100 text-red-800">Rejected</span>
+                        )}
+                      </div>
+                      {proposalUnit.clientComment && (
+                        <p className="text-xs text-gray-600 italic mt-0.5">Client: {proposalUnit.clientComment}</p>
+                      )}
+                      <input
+                        type="text"
+                        value={proposalUnit.notes || ''}
+                        onChange={(e) => handleNoteChange(activeProposal, proposalUnit.unitId, e.target.value)}
+                        placeholder="Note for this unit"
+                        aria-label={`Note for ${proposalUnit.unitId}`}
+                        className="mt-1 w-full px-2 py-1 bg-gray-50 border border-gray-200 rounded text-xs focus:outline-none focus:ring-2 focus:ring-capitol-red"
+                      />
+                    </div>
+                  )
+                })}
+                {activeProposal.units.length === 0 && (
+                  <p className="text-xs text-gray-500">Select units on the map to add them</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="p-4 border-b border-gray-200">
+              <button
+                onClick={onNew}
+                disabled={selectedCount === 0}
+                className="w-full px-4 py-2 bg-capitol-red hover:bg-capitol-red-dark disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                Save selection as proposal
+              </button>
+              {selectedCount === 0 && (
+                <p className="text-xs text-gray-500 mt-2 text-center">Select units on the map first</p>
+              )}
+            </div>
+          )}
+
+          {/* Saved proposals */}
+          {proposals.length > 1 && (
+            <div className="px-4 py-2 border-b border-gray-100 flex items-center justify-between text-xs">
+              <span className="text-gray-500">
+                {compareIds.length > 0 ? `${compareIds.length} picked to compare` : 'Tick two or more to compare'}
+              </span>
+              <button
+                onClick={() => onCompare(compareIds)}
+                disabled={compareIds.length < 2}
+                className="px-3 py-1.5 bg-capitol-dark hover:bg-capitol-gray disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+              >
+                Compare
+              </button>
+            </div>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {proposals.map(proposal => (
+              <li
+                key={proposal.id}
+                className={`p-4 ${proposal.id === activeProposalId ? 'bg-capitol-red/5' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  {proposals.length > 1 && (
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(proposal.id)}
+                      onChange={() => toggleCompare(proposal.id)}
+                      aria-label={`Compare ${proposal.title || 'Untitled proposal'}`}
+                      className="mt-1 rounded border-gray-300 text-capitol-red focus:ring-capitol-red"
+                    />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-sm text-capitol-gray truncate">{proposal.title || 'Untitled proposal'}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {proposal.advertiser || 'No advertiser'} · {proposal.units.length} unit
+                      {proposal.units.length !== 1 ? 's' : ''}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {formatDateRange(proposal.flight.startDate, proposal.flight.endDate)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                    {proposal.id !== activeProposalId && (
+                      <button
+                        onClick={() => onOpen(proposal.id)}
+                        className="font-medium text-capitol-red hover:text-capitol-red-dark"
+                      >
+                        Open
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onDuplicate(proposal.id)}
+                      className="text-gray-600 hover:text-gray-800"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleDelete(proposal)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {proposals.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No saved proposals yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { ReachEstimate } from '@/lib/types'
+import { formatPeople } from '@/lib/reach'
+
+interface ReachSummaryProps {
+  estimate: ReachEstimate
+}
+
+export default function ReachSummary({ estimate }: ReachSummaryProps) {
+  if (estimate.markets.length === 0) {
+    return <p className="text-xs text-gray-500">No population data for these markets.</p>
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">{estimate.reachPercent.toFixed(1)}%</span>
+          <span className="text-xs text-gray-500">Reach ({formatPeople(estimate.reach)})</span>
+        </div>
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">{estimate.frequency.toFixed(1)}</span>
+          <span className="text-xs text-gray-500">Frequency</span>
+        </div>
+        <div className="bg-capitol-light rounded-xl p-3 text-center">
+          <span className="text-lg font-bold text-capitol-red block">{Math.round(estimate.grp)}</span>
+          <span className="text-xs text-gray-500">GRPs</span>
+        </div>
+      </div>
+
+      {/* Per-market breakdown */}
+      <table className="w-full text-xs text-gray-600">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="font-medium py-1">Market</th>
+            <th className="font-medium py-1 text-right">Adults 18+</th>
+            <th className="font-medium py-1 text-right">GRPs</th>
+            <th className="font-medium py-1 text-right">Reach</th>
+            <th className="font-medium py-1 text-right">Freq</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {estimate.markets.map(m => (
+            <tr key={m.market}>
+              <td className="py-1">{m.market}</td>
+              <td className="py-1 text-right">{formatPeople(m.population)}</td>
+              <td className="py-1 text-right">{Math.round(m.grp)}</td>
+              <td className="py-1 text-right">{m.reachPercent.toFixed(1)}%</td>
+              <td className="py-1 text-right">{m.frequency.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {estimate.unmeasuredMarkets.length > 0 && (
+        <p className="text-xs text-amber-700 mt-2">
+          Not included (no population data): {estimate.unmeasuredMarkets.join(', ')}
+        </p>
+      )}
+      <p className="text-[11px] text-gray-400 mt-2">
+        Estimated over the flight from weekly impressions and market population; not audited reach.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { Unit, UnitDecision, UnitResponse } from '@/lib/types'
+import { BRANDING } from '@/lib/branding'
+
+interface ResponsePanelProps {
+  units: Unit[]
+  responses: Record<string, UnitResponse>
+  onUnitResponseChange: (unitId: string, change: Partial<UnitResponse>) => void
+  respondent: string
+  onRespondentChange: (value: string) => void
+  comment: string
+  onCommentChange: (value: string) => void
+  responseUrl: string | null // Set once a link has been created
+  copied: boolean
+  onCreateLink: () => void
+  onDownload: () => void
+  onClose: () => void
+}
+
+export default function ResponsePanel({
+  units,
+  responses,
+  onUnitResponseChange,
+  respondent,
+  onRespondentChange,
+  comment,
+  onCommentChange,
+  responseUrl,
+  copied,
+  onCreateLink,
+  onDownload,
+  onClose,
+}: ResponsePanelProps) {
+  const decided = units.filter(u => responses[u.id]?.decision).length
+
+  // Clicking the active decision again clears it
+  const handleDecision = (unitId: string, decision: UnitDecision) => {
+    onUnitResponseChange(unitId, {
+      decision: responses[unitId]?.decision === decision ? undefined : decision,
+    })
+  }
+
+  return (
+    <aside className="w-full sm:w-96 flex-shrink-0 bg-white border-r border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-800">Your Response</h2>
+          <p className="text-sm text-gray-500">
+            {decided} of {units.length} unit{units.length !== 1 ? 's' : ''} decided
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          aria-label="Close"
+        >
+          <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Units */}
+      <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+        {units.map(unit => {
+          const response = responses[unit.id]
+          return (
+            <div key={unit.id} className="p-4">
+              <p className="font-medium text-sm text-capitol-gray truncate">{unit.name}</p>
+              <p className="text-xs text-gray-500">{unit.id} · {unit.market}</p>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => handleDecision(unit.id, 'approved')}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                    response?.decision === 'approved'
+                      ? 'bg-green-500 text-white'
+                      : 'bg-gray-100 hover:bg-green-100 text-gray-700'
+                  }`}
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleDecision(unit.id, 'rejected')}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                    response?.decision === 'rejected'
+                      ? 'bg-red-500 text-white'
+                      : 'bg-gray-100 hover:bg-red-100 text-gray-700'
+                  }`}
+                >
+                  Reject
+                </button>
+              </div>
+              <input
+                type="text"
+                value={response?.comment || ''}
+                onChange={(e) => onUnitResponseChange(unit.id, { comment: e.target.value || undefined })}
+                placeholder="Comment (optional)"
+                aria-label={`Comment on ${unit.id}`}
+                className="mt-2 w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded text-xs focus:outline-none focus:ring-2 focus:ring-capitol-red"
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Send */}
+      <div className="p-4 border-t border-gray-200 space-y-2">
+        <input
+          type="text"
+          value={respondent}
+          onChange={(e) => onRespondentChange(e.target.value)}
+          placeholder="Your name"
+          aria-label="Your name"
+          className="w-full px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+        />
+        <textarea
+          value={comment}
+          onChange={(e) => onCommentChange(e.target.value)}
+          placeholder="Overall comments (optional)"
+          aria-label="Overall comments"
+          rows={2}
+          className="w-full px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red resize-none"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={onCreateLink}
+            className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              copied ? 'bg-green-500 text-white' : 'bg-capitol-red hover:bg-capitol-red-dark text-white'
+            }`}
+          >
+            {copied ? 'Link copied!' : 'Copy response link'}
+          </button>
+          <button
+            onClick={onDownload}
+            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+            title="Download a response file to email to your rep"
+          >
+            Download
+          </button>
+        </div>
+        {responseUrl && (
+          <input
+            type="text"
+            readOnly
+            value={responseUrl}
+            onFocus={(e) => e.target.select()}
+            aria-label="Response link"
+            className="w-full px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600 truncate"
+          />
+        )}
+        <p className="text-[11px] text-gray-400">
+          Send the link or file to your {BRANDING.companyName} rep to update the proposal.
+        </p>
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { Proposal, ProposalResponse, Unit } from '@/lib/types'
+import { formatDateRange } from '@/lib/availability'
+
+interface ResponseReviewModalProps {
+  response: ProposalResponse
+  proposal: Proposal | null // Saved proposal the response answers, if it's on this device
+  units: Unit[]
+  onApply: () => void
+  onClose: () => void
+}
+
+export default function ResponseReviewModal({ response, proposal, units, onApply, onClose }: ResponseReviewModalProps) {
+  const unitsById = new Map(units.map(u => [u.id, u]))
+  const approved = response.units.filter(u => u.decision === 'approved').length
+  const rejected = response.units.filter(u => u.decision === 'rejected').length
+  const title = proposal?.title || response.title || 'Untitled proposal'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-gray-800">Client Response</h2>
+            <p className="text-sm text-gray-500 truncate">
+              {title}
+              {response.respondent && ` · from ${response.respondent}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="flex gap-4 text-sm">
+            <span className="text-green-700 font-medium">{approved} approved</span>
+            <span className="text-red-700 font-medium">{rejected} rejected</span>
+            <span className="text-gray-500">{response.units.length - approved - rejected} undecided</span>
+          </div>
+
+          {response.flight && (
+            <p className="text-xs text-gray-500">
+              Flight {formatDateRange(response.flight.startDate, response.flight.endDate)} · Responded{' '}
+              {new Date(response.respondedAt).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit',
+              })}
+            </p>
+          )}
+
+          {response.comment && (
+            <p className="text-sm text-gray-700 bg-capitol-light rounded-lg p-3 italic">{response.comment}</p>
+          )}
+
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {response.units.map(answer => (
+              <li key={answer.unitId} className="p-3 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-700 truncate">
+                    {answer.unitId}
+                    {unitsById.get(answer.unitId) && (
+                      <span className="font-normal text-gray-500"> · {unitsById.get(answer.unitId)!.market}</span>
+                    )}
+                  </p>
+                  {answer.comment && <p className="text-xs text-gray-600 italic">{answer.comment}</p>}
+                </div>
+                {answer.decision === 'approved' && (
+                  <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-green-100 text-green-800">Approved</span>
+                )}
+                {answer.decision === 'rejected' && (
+                  <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-800">Rejected</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {!proposal && (
+            <p className="text-xs text-amber-700">
+              The original proposal isn&apos;t saved in this browser, so a new proposal will be created.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onApply}
+            className="px-4 py-2 bg-capitol-red hover:bg-capitol-red-dark text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {proposal ? 'Apply to Proposal' : 'Create Proposal'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,27 +1,147 @@
 'use client'
 
-import { useState } from 'react'
-import { Unit } from '@/lib/types'
-import { generateShareUrl, copyToClipboard } from '@/lib/share'
+import { useState, useEffect } from 'react'
+import { AvailabilityStatus, MapView, Proposal, RepContact, Unit, UnitAvailability } from '@/lib/types'
+import { generateShareUrl, signShareUrl, copyToClipboard } from '@/lib/share'
+import { formatDateRange, getFlightStatus } from '@/lib/availability'
+import { addDays, formatDateOnly, today } from '@/lib/dates'
+import { calculatePricing, normalizeDiscount } from '@/lib/pricing'
+import { estimateReach } from '@/lib/reach'
+import { BRANDING, loadRep, saveRep } from '@/lib/branding'
+import type { TemplateName } from '@/lib/pdfTemplates'
+import PricingSummary from './PricingSummary'
+import ReachSummary from './ReachSummary'
+
+// Link lifetimes offered in the modal, in days ('flight' = through the flight end date)
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never expires' },
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: 'flight', label: 'End of flight' },
+]
+
+// Unit page layouts offered for the proposal PDF
+const PDF_LAYOUTS: { value: TemplateName; label: string }[] = [
+  { value: 'sell-sheet', label: 'Sell sheets (1 per page)' },
+  { value: 'contact-2up', label: 'Contact sheet (2 per page)' },
+  { value: 'contact-4up', label: 'Contact sheet (4 per page)' },
+]
 
 interface ShareModalProps {
-  isOpen: boolean
   onClose: () => void
-  selectedUnits: Unit[]
+  proposal: Proposal
+  onProposalChange: (proposal: Proposal) => void
   allUnits: Unit[]
+  availability: Map<string, UnitAvailability> // Frozen into the link as each unit's flight status
+  mapView?: MapView | null // Current main map viewport, offered as the link's starting view
 }
 
-export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModalProps) {
+export default function ShareModal({
+  onClose,
+  proposal,
+  onProposalChange,
+  allUnits,
+  availability,
+  mapView,
+}: ShareModalProps) {
   const [copied, setCopied] = useState(false)
+  const [shareMapView, setShareMapView] = useState(false)
+  const [expiry, setExpiry] = useState('')
+  const [shareUrl, setShareUrl] = useState('')
+  const [signError, setSignError] = useState(false)
+  const [pdfLayout, setPdfLayout] = useState<TemplateName>('sell-sheet')
+  const [isGeneratingPDF, setIsGeneratingPDF] = useState(false)
+  const [isGeneratingDeck, setIsGeneratingDeck] = useState(false)
+  const [rep, setRep] = useState<RepContact | null>(null)
+
+  // The rep carries over between proposals in this browser
+  useEffect(() => {
+    setRep(loadRep())
+  }, [])
+
+  const updateRep = (next: RepContact | null) => {
+    setRep(next)
+    saveRep(next)
+  }
+
+  // A configured rep's position in the picker, 'custom' for anyone else, '' for the office
+  const repIndex = rep ? BRANDING.reps.findIndex(r => r.name === rep.name && r.email === rep.email) : -1
+  const repChoice = !rep ? '' : repIndex >= 0 ? String(repIndex) : 'custom'
+  const handleRepChoice = (choice: string) => {
+    if (choice === 'custom') {
+      updateRep({ name: '' })
+    } else {
+      updateRep(choice ? BRANDING.reps[Number(choice)] : null)
+    }
+  }
+  // Documents fall back to the office until a custom rep has a name
+  const documentRep = rep && rep.name.trim() ? rep : undefined
+
+  // Proposal units in proposal order, skipping any no longer in inventory
+  const unitsById = new Map(allUnits.map(u => [u.id, u]))
+  const selectedUnits = proposal.units
+    .map(pu => unitsById.get(pu.unitId))
+    .filter((u): u is Unit => !!u)
+  const notesById = new Map(proposal.units.map(pu => [pu.unitId, pu.notes]))
+
+  const unitStatuses: Record<string, AvailabilityStatus> = {}
+  selectedUnits.forEach(unit => {
+    const status = getFlightStatus(availability.get(unit.id), proposal.flight)
+    if (status) {
+      unitStatuses[unit.id] = status
+    }
+  })
 
-  if (!isOpen) return null
+  // Priced with today's rate cards; the rates are frozen into the link as the quote
+  const pricing = calculatePricing(selectedUnits, proposal.flight, proposal.discountPercent)
+  const quotedRates = Object.fromEntries(pricing.lines.map(line => [line.unitId, line.rateCard]))
 
-  const shareUrl = generateShareUrl(
+  const expires = expiry === 'flight'
+    ? proposal.flight.endDate
+    : expiry ? addDays(today(), Number(expiry)) : undefined
+
+  const unsignedUrl = generateShareUrl(
     typeof window !== 'undefined' ? window.location.origin : '',
-    { selectedUnits: selectedUnits.map(u => u.id) }
+    {
+      selectedUnits: selectedUnits.map(u => u.id),
+      proposalId: proposal.id,
+      expires,
+      title: proposal.title,
+      advertiser: proposal.advertiser,
+      flight: proposal.flight,
+      unitStatuses,
+      discountPercent: proposal.discountPercent,
+      quotedRates,
+      rep: documentRep,
+      // Without a view the share page frames all units
+      ...(shareMapView && mapView ? { center: mapView.center, zoom: mapView.zoom } : {}),
+    },
+    allUnits.map(u => u.id)
   )
 
+  // Signing is async (Web Crypto), so the link shown lags a moment behind edits.
+  // If it fails (no Web Crypto outside https) no link is offered: the share page
+  // would reject it.
+  useEffect(() => {
+    let cancelled = false
+    setShareUrl('')
+    setSignError(false)
+    signShareUrl(unsignedUrl)
+      .then(url => {
+        if (!cancelled) setShareUrl(url)
+      })
+      .catch(err => {
+        console.error('Failed to sign share link:', err)
+        if (!cancelled) setSignError(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [unsignedUrl])
+
   const handleCopy = async () => {
+    if (!shareUrl) return
     const success = await copyToClipboard(shareUrl)
     if (success) {
       setCopied(true)
@@ -53,6 +173,58 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
     })
   }
 
+  const handleDiscountChange = (value: string) => {
+    const discount = normalizeDiscount(parseFloat(value))
+    onProposalChange({ ...proposal, discountPercent: discount || undefined })
+  }
+
+  const reach = estimateReach(selectedUnits, proposal.flight)
+
+  // Shared by the PDF and the PowerPoint deck
+  const documentDetails = {
+    title: proposal.title,
+    advertiser: proposal.advertiser,
+    flight: proposal.flight,
+    rep: documentRep,
+    unitStatuses,
+    unitNotes: Object.fromEntries(
+      proposal.units.filter(pu => pu.notes).map(pu => [pu.unitId, pu.notes!])
+    ),
+    pricing,
+    reach,
+  }
+  const fileName = (proposal.title || 'proposal').replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+
+  // jsPDF is only loaded when a PDF is requested
+  const handleDownloadPDF = async () => {
+    setIsGeneratingPDF(true)
+    try {
+      const { generateProposalPDF, downloadPDF } = await import('@/lib/pdfGenerator')
+      const doc = await generateProposalPDF(selectedUnits, documentDetails, pdfLayout)
+      downloadPDF(doc, `${fileName}.pdf`)
+    } catch (err) {
+      console.error('Failed to generate proposal PDF:', err)
+      window.alert('Sorry, the proposal PDF could not be created.')
+    } finally {
+      setIsGeneratingPDF(false)
+    }
+  }
+
+  // Likewise pptxgenjs for decks
+  const handleDownloadDeck = async () => {
+    setIsGeneratingDeck(true)
+    try {
+      const { generateProposalPPTX, downloadPPTX } = await import('@/lib/pptxGenerator')
+      const pptx = await generateProposalPPTX(selectedUnits, documentDetails)
+      await downloadPPTX(pptx, `${fileName}.pptx`)
+    } catch (err) {
+      console.error('Failed to generate proposal deck:', err)
+      window.alert('Sorry, the PowerPoint deck could not be created.')
+    } finally {
+      setIsGeneratingDeck(false)
+    }
+  }
+
   const unitsWithSellsheets = selectedUnits.filter(u => u.sellsheet)
   const totalWeeklyImpressions = selectedUnits.reduce(
     (sum, u) => sum + (u.weeklyImpressions || u.dailyImpressions * 7), 0
@@ -81,8 +253,12 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
               </svg>
             </button>
           </div>
-          <p className="text-white/70 text-sm mt-1">
-            Share link or download Capitol sell sheets
+          <p className="text-white/90 text-sm mt-1 font-medium truncate">
+            {proposal.title || 'Untitled proposal'}
+            {proposal.advertiser && ` for ${proposal.advertiser}`}
+          </p>
+          <p className="text-white/70 text-sm">
+            Flight {formatDateRange(proposal.flight.startDate, proposal.flight.endDate)}
           </p>
         </div>
 
@@ -110,6 +286,67 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
             </div>
           </div>
 
+          {/* Pricing */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-500">Pricing</label>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <label htmlFor="proposal-discount">Discount</label>
+                <input
+                  id="proposal-discount"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={proposal.discountPercent ?? ''}
+                  onChange={(e) => handleDiscountChange(e.target.value)}
+                  placeholder="0"
+                  className="w-16 px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-capitol-red"
+                />
+                %
+              </div>
+            </div>
+            <PricingSummary pricing={pricing} />
+          </div>
+
+          {/* Reach & frequency */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-500 mb-2">Reach &amp; Frequency</label>
+            <ReachSummary estimate={reach} />
+          </div>
+
+          {/* Prepared by */}
+          <div className="mb-6">
+            <label htmlFor="share-rep" className="block text-sm font-medium text-gray-500 mb-2">Prepared By</label>
+            <select
+              id="share-rep"
+              value={repChoice}
+              onChange={(e) => handleRepChoice(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+            >
+              <option value="">{BRANDING.office.name} ({BRANDING.office.phone})</option>
+              {BRANDING.reps.map((r, i) => (
+                <option key={i} value={i}>{r.name}</option>
+              ))}
+              <option value="custom">Someone else…</option>
+            </select>
+            {repChoice === 'custom' && rep && (
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                {(['name', 'phone', 'email'] as const).map(field => (
+                  <input
+                    key={field}
+                    type={field === 'email' ? 'email' : field === 'phone' ? 'tel' : 'text'}
+                    value={rep[field] || ''}
+                    onChange={(e) => updateRep({ ...rep, [field]: e.target.value })}
+                    placeholder={field.charAt(0).toUpperCase() + field.slice(1)}
+                    className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+                  />
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-400 mt-1">Shown on the share page and PDFs</p>
+          </div>
+
           {/* Share URL */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-500 mb-2">Share Link</label>
@@ -117,7 +354,7 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
               <input
                 type="text"
                 readOnly
-                value={shareUrl}
+                value={shareUrl || (signError ? 'Link unavailable' : 'Signing link…')}
                 className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600 truncate"
               />
               <button
@@ -145,6 +382,70 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
                 )}
               </button>
             </div>
+            {signError && (
+              <p className="text-xs text-red-600 mt-1">
+                This link couldn&apos;t be signed. Signing needs the app to be opened over https; reopen it there to
+                share this proposal.
+              </p>
+            )}
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={shareMapView}
+                onChange={(e) => setShareMapView(e.target.checked)}
+                disabled={!mapView}
+                className="rounded border-gray-300 text-capitol-red focus:ring-capitol-red"
+              />
+              Share current map view
+              <span className="text-xs text-gray-400">(otherwise the link shows all units)</span>
+            </label>
+            <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+              <label htmlFor="share-expiry">Link expires</label>
+              <select
+                id="share-expiry"
+                value={expiry}
+                onChange={(e) => setExpiry(e.target.value)}
+                className="px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {expires && (
+                <span className="text-xs text-gray-400">Valid through {formatDateOnly(expires)}</span>
+              )}
+            </div>
+          </div>
+
+          {/* Proposal PDF */}
+          <div className="mb-6">
+            <label htmlFor="pdf-layout" className="block text-sm font-medium text-gray-500 mb-2">Proposal PDF &amp; Deck</label>
+            <div className="flex gap-2">
+              <select
+                id="pdf-layout"
+                value={pdfLayout}
+                onChange={(e) => setPdfLayout(e.target.value as TemplateName)}
+                className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-capitol-red"
+              >
+                {PDF_LAYOUTS.map(layout => (
+                  <option key={layout.value} value={layout.value}>{layout.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleDownloadPDF}
+                disabled={isGeneratingPDF || selectedUnits.length === 0}
+                className="px-4 py-2 bg-capitol-red hover:bg-capitol-red-dark disabled:bg-gray-300 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                {isGeneratingPDF ? 'Preparing…' : 'Download'}
+              </button>
+            </div>
+            <button
+              onClick={handleDownloadDeck}
+              disabled={isGeneratingDeck || selectedUnits.length === 0}
+              className="w-full mt-2 px-4 py-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              {isGeneratingDeck ? 'Preparing deck…' : 'Download as PowerPoint'}
+            </button>
           </div>
 
           {/* Sell Sheets Section */}
@@ -178,6 +479,11 @@ export default function ShareModal({ isOpen, onClose, selectedUnits }: ShareModa
                     <div className="min-w-0">
                       <p className="font-medium text-sm text-gray-700 truncate">{unit.id}</p>
                       <p className="text-xs text-gray-500 truncate">{unit.market}</p>
+                      {notesById.get(unit.id) && (
+                        <p className="text-xs text-gray-600 italic truncate" title={notesById.get(unit.id)}>
+                          {notesById.get(unit.id)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -1,8 +1,19 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { Unit, UnitAvailability, AvailabilityStatus } from '@/lib/types'
-import { getCurrentAvailability, getStatusDisplay } from '@/lib/availability'
+import { Unit, UnitAvailability, AvailabilityStatus, AvailabilitySnapshot, DateRange } from '@/lib/types'
+import {
+  getFlightStatus,
+  getOverlappingPeriods,
+  getStatusDisplay,
+  isHoldExpired,
+  isSecondHoldAvailable,
+} from '@/lib/availability'
+import { getCalendarFor } from '@/lib/periodCalendar'
+import { availabilityToCSV, availabilityToICS } from '@/lib/availabilityExport'
+import { downloadFile } from '@/lib/download'
+import { today } from '@/lib/dates'
+import FlightPicker from './FlightPicker'
 
 interface SidebarProps {
   units: Unit[]
@@ -15,12 +26,18 @@ interface SidebarProps {
   onTypeFilterChange: (type: string) => void
   availabilityFilter: string
   onAvailabilityFilterChange: (status: string) => void
+  flight: DateRange
+  onFlightChange: (flight: DateRange) => void
   onLocationSearch: (lat: number, lng: number) => void
   searchLocation: { lat: number; lng: number } | null
   onClearLocationSearch: () => void
   isGoogleLoaded?: boolean
   availability: Map<string, UnitAvailability>
+  availabilityHistory: AvailabilitySnapshot[]
   onOpenAvailImport: () => void
+  onOpenTimeline: (units: Unit[]) => void
+  onRevertAvailability: () => void
+  onClearAvailability: () => void
 }
 
 export default function Sidebar({
@@ -34,12 +51,18 @@ export default function Sidebar({
   onTypeFilterChange,
   availabilityFilter,
   onAvailabilityFilterChange,
+  flight,
+  onFlightChange,
   onLocationSearch,
   searchLocation,
   onClearLocationSearch,
   isGoogleLoaded = false,
   availability,
+  availabilityHistory,
   onOpenAvailImport,
+  onOpenTimeline,
+  onRevertAvailability,
+  onClearAvailability,
 }: SidebarProps) {
   const [searchAddress, setSearchAddress] = useState('')
   const [isSearching, setIsSearching] = useState(false)
@@ -75,11 +98,9 @@ export default function Sidebar({
   const markets = Array.from(new Set(units.map(u => u.market))).sort()
   const types = Array.from(new Set(units.map(u => u.type))).sort()
 
-  // Helper to get unit's current availability status
+  // Helper to get unit's availability status for the campaign flight
   const getUnitStatus = (unitId: string): AvailabilityStatus | null => {
-    const unitAvail = availability.get(unitId)
-    const currentPeriod = getCurrentAvailability(unitAvail)
-    return currentPeriod?.status || null
+    return getFlightStatus(availability.get(unitId), flight)
   }
 
   // Filter units
@@ -96,6 +117,9 @@ export default function Sidebar({
       if (availabilityFilter === 'available') {
         return status === 'available' || status === null // No data = available
       }
+      if (availabilityFilter === 'second-hold') {
+        return isSecondHoldAvailable(availability.get(u.id), flight.startDate, flight.endDate)
+      }
       return status === availabilityFilter
     })
   }
@@ -138,6 +162,38 @@ export default function Sidebar({
     setIsSearching(false)
   }
 
+  const latestImport = availabilityHistory[0]
+  const previousImport = availabilityHistory[1]
+
+  const handleRevertImport = () => {
+    const message = previousImport
+      ? `Revert to the previous import (${previousImport.fileName})?`
+      : 'Remove the only stored import?'
+    if (window.confirm(message)) {
+      onRevertAvailability()
+    }
+  }
+
+  const handleClearImports = () => {
+    if (window.confirm('Clear all stored availability data?')) {
+      onClearAvailability()
+    }
+  }
+
+  // Export the selected units, or everything matching the filters when nothing is selected
+  const exportUnits = selectedIds.size > 0
+    ? units.filter(u => selectedIds.has(u.id))
+    : filteredUnits
+
+  const handleExport = (format: 'csv' | 'ics') => {
+    const fileName = `capitol-availability-${today()}.${format}`
+    if (format === 'csv') {
+      downloadFile(availabilityToCSV(exportUnits, availability), fileName, 'text/csv;charset=utf-8')
+    } else {
+      downloadFile(availabilityToICS(exportUnits, availability), fileName, 'text/calendar;charset=utf-8')
+    }
+  }
+
   const handleClearSearch = () => {
     setSearchAddress('')
     setSearchError('')
@@ -263,6 +319,13 @@ export default function Sidebar({
           </div>
         </div>
 
+        {/* Flight Dates */}
+        <FlightPicker
+          flight={flight}
+          onFlightChange={onFlightChange}
+          calendar={getCalendarFor({ market: marketFilter || undefined, type: typeFilter || undefined })}
+        />
+
         {/* Availability Row */}
         <div className="flex items-end gap-2">
           <div className="flex-1">
@@ -276,28 +339,88 @@ export default function Sidebar({
               <option value="available">Available</option>
               <option value="sold">Sold</option>
               <option value="hold">On Hold</option>
+              <option value="second-hold">2nd Hold Available</option>
               <option value="pending">Pending</option>
             </select>
           </div>
           <button
             onClick={onOpenAvailImport}
             className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5"
-            title="Import availability from CSV"
+            title="Import availability from CSV or Excel"
           >
             <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
             </svg>
             Import
           </button>
+          <button
+            onClick={() => onOpenTimeline(filteredUnits)}
+            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5"
+            title="Show availability timeline for the listed units"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h10M4 12h16M4 18h7" />
+            </svg>
+            Timeline
+          </button>
         </div>
 
         {/* Availability data indicator */}
         {availability.size > 0 && (
-          <div className="flex items-center gap-2 px-2 py-1.5 bg-green-50 border border-green-200 rounded-lg text-xs text-green-700">
-            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-            <span>Availability loaded for {availability.size} units</span>
+          <div className="px-2 py-1.5 bg-green-50 border border-green-200 rounded-lg text-xs text-green-700">
+            <div className="flex items-center gap-2">
+              <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span>Availability loaded for {availability.size} units</span>
+            </div>
+            {latestImport && (
+              <p className="mt-1 text-green-600 truncate" title={latestImport.fileName}>
+                Updated {new Date(latestImport.importedAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}{' '}
+                from {latestImport.fileName}
+              </p>
+            )}
+            {latestImport && (
+              <div className="flex items-center gap-3 mt-1.5 pt-1.5 border-t border-green-200">
+                <button
+                  onClick={handleRevertImport}
+                  className="font-medium text-green-700 hover:text-green-900"
+                  title={previousImport ? `Restore ${previousImport.fileName}` : 'Remove this import'}
+                >
+                  {previousImport ? 'Revert to previous' : 'Undo import'}
+                </button>
+                <button
+                  onClick={handleClearImports}
+                  className="font-medium text-red-600 hover:text-red-800"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+            <div className="flex items-center gap-3 mt-1.5 pt-1.5 border-t border-green-200">
+              <span className="text-green-600">
+                Export {selectedIds.size > 0 ? `${exportUnits.length} selected` : `${exportUnits.length} shown`}:
+              </span>
+              <button
+                onClick={() => handleExport('csv')}
+                className="font-medium text-green-700 hover:text-green-900"
+                title="Download as CSV in the import layout"
+              >
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport('ics')}
+                className="font-medium text-green-700 hover:text-green-900"
+                title="Download as calendar events"
+              >
+                Calendar (.ics)
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -332,8 +455,15 @@ export default function Sidebar({
         {filteredUnits.map(unit => {
           const distance = getDistanceMiles(unit)
           const unitAvail = availability.get(unit.id)
-          const currentPeriod = getCurrentAvailability(unitAvail)
-          const statusDisplay = currentPeriod ? getStatusDisplay(currentPeriod.status) : null
+          const flightStatus = getFlightStatus(unitAvail, flight)
+          const statusDisplay = flightStatus ? getStatusDisplay(flightStatus) : null
+          // Client on the booking that determines the flight status
+          const bookedClient = flightStatus
+            ? getOverlappingPeriods(unitAvail, flight.startDate, flight.endDate)
+                .find(p => p.status === flightStatus && p.client && !isHoldExpired(p))?.client
+            : undefined
+          const secondHoldOpen = flightStatus === 'hold' &&
+            isSecondHoldAvailable(unitAvail, flight.startDate, flight.endDate)
 
           return (
             <div
@@ -392,6 +522,11 @@ export default function Sidebar({
                         {statusDisplay.label}
                       </span>
                     )}
+                    {secondHoldOpen && (
+                      <span className="text-xs text-amber-700" title="Only a 1st hold is placed; a 2nd hold can be taken">
+                        2nd open
+                      </span>
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 truncate">{unit.market}</p>
                   <div className="flex items-center gap-2 mt-1">
@@ -405,11 +540,11 @@ export default function Sidebar({
                       </>
                     )}
                     {/* Show client if sold/hold */}
-                    {currentPeriod?.client && (
+                    {bookedClient && (
                       <>
                         <span className="text-xs text-gray-300">|</span>
-                        <span className="text-xs text-gray-500 truncate" title={currentPeriod.client}>
-                          {currentPeriod.client}
+                        <span className="text-xs text-gray-500 truncate" title={bookedClient}>
+                          {bookedClient}
                         </span>
                       </>
                     )}
@@ -0,0 +1,54 @@
+'use client'
+
+import { Unit, UnitAvailability, DateRange } from '@/lib/types'
+import { formatDateRange } from '@/lib/availability'
+import AvailabilityTimeline from './AvailabilityTimeline'
+
+interface TimelineModalProps {
+  units: Unit[]
+  availability: Map<string, UnitAvailability>
+  flight: DateRange
+  onUnitClick: (unit: Unit) => void
+  onClose: () => void
+}
+
+export default function TimelineModal({ units, availability, flight, onUnitClick, onClose }: TimelineModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800">Availability Timeline</h2>
+            <p className="text-sm text-gray-500">
+              {units.length} unit{units.length !== 1 ? 's' : ''} · Flight {formatDateRange(flight.startDate, flight.endDate)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {units.length > 0 ? (
+            <AvailabilityTimeline
+              units={units}
+              availability={availability}
+              flight={flight}
+              onUnitClick={onUnitClick}
+            />
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-8">No units match the current filters</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,17 @@
 'use client'
 
-import { Unit, UnitAvailability } from '@/lib/types'
+import { Unit, UnitAvailability, DateRange } from '@/lib/types'
 import { generateStreetViewUrl } from '@/lib/streetview'
-import { getCurrentAvailability, getStatusDisplay, formatDateRange } from '@/lib/availability'
+import {
+  getFlightStatus,
+  getOverlappingPeriods,
+  getStatusDisplay,
+  formatDateRange,
+  formatHold,
+  isHoldExpired,
+  generate4WeekPeriod,
+} from '@/lib/availability'
+import AvailabilityTimeline from './AvailabilityTimeline'
 
 interface UnitInfoWindowProps {
   unit: Unit
@@ -10,12 +19,22 @@ interface UnitInfoWindowProps {
   onToggleSelect: (unitId: string) => void
   onClose: () => void
   availability?: UnitAvailability
+  flight?: DateRange
 }
 
-export default function UnitInfoWindow({ unit, isSelected, onToggleSelect, onClose, availability }: UnitInfoWindowProps) {
+export default function UnitInfoWindow({
+  unit,
+  isSelected,
+  onToggleSelect,
+  onClose,
+  availability,
+  flight = generate4WeekPeriod(),
+}: UnitInfoWindowProps) {
   const streetViewUrl = generateStreetViewUrl(unit.lat, unit.lng, unit.streetViewHeading)
-  const currentPeriod = getCurrentAvailability(availability)
-  const statusDisplay = currentPeriod ? getStatusDisplay(currentPeriod.status) : null
+  const flightStatus = getFlightStatus(availability, flight)
+  const statusDisplay = flightStatus ? getStatusDisplay(flightStatus) : null
+  const flightPeriods = getOverlappingPeriods(availability, flight.startDate, flight.endDate)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
 
   const typeColors: Record<string, string> = {
     billboard: 'bg-blue-100 text-blue-800',
@@ -89,10 +108,10 @@ export default function UnitInfoWindow({ unit, isSelected, onToggleSelect, onClo
           </div>
         </div>
 
-        {/* Availability Status */}
-        {statusDisplay && currentPeriod && (
-          <div className={`mb-3 p-2 rounded-lg border ${statusDisplay.borderColor} bg-opacity-10`}
-               style={{ backgroundColor: `${statusDisplay.dotColor.replace('bg-', '')}10` }}>
+        {/* Availability Status for the flight */}
+        {statusDisplay && availability && (
+          <div className={`mb-3 p-2 rounded-lg border ${statusDisplay.borderColor}`}
+               style={{ backgroundColor: `${statusDisplay.hexColor}10` }}>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <span className={`w-2 h-2 rounded-full ${statusDisplay.dotColor}`} />
@@ -101,17 +120,42 @@ export default function UnitInfoWindow({ unit, isSelected, onToggleSelect, onClo
                 </span>
               </div>
               <span className="text-xs text-gray-500">
-                {formatDateRange(currentPeriod.startDate, currentPeriod.endDate)}
+                Flight {formatDateRange(flight.startDate, flight.endDate)}
               </span>
             </div>
-            {currentPeriod.client && (
-              <p className="text-xs text-gray-600 mt-1">
-                Client: {currentPeriod.client}
-              </p>
-            )}
-            {currentPeriod.notes && (
-              <p className="text-xs text-gray-500 mt-1 italic">{currentPeriod.notes}</p>
+            {flightPeriods.length > 0 ? (
+              <ul className="mt-1 space-y-1">
+                {flightPeriods.map((period, i) => (
+                  <li key={i} className="text-xs text-gray-600">
+                    <span className="font-medium">{getStatusDisplay(period.status).label}</span>{' '}
+                    {formatDateRange(period.startDate, period.endDate)}
+                    {period.client && ` · ${period.client}`}
+                    {period.status === 'hold' && (
+                      <span className={`block ${isHoldExpired(period) ? 'text-gray-400 line-through' : 'text-amber-700'}`}>
+                        {formatHold(period)}
+                      </span>
+                    )}
+                    {period.notes && (
+                      <span className="block text-gray-500 italic">{period.notes}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">No bookings during this flight</p>
             )}
+            <div className="mt-2">
+              <AvailabilityTimeline
+                units={[unit]}
+                availability={new Map([[unit.id, availability]])}
+                flight={flight}
+                compact
+              />
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1 truncate">
+              Updated {new Date(availability.lastUpdated).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              {availability.source && ` from ${availability.source}`}
+            </p>
           </div>
         )}
 
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+import { AvailabilityPeriod, UnitAvailability } from './types'
+import { DEFAULT_CALENDAR } from './periodCalendar'
+import {
+  diffAvailability,
+  formatHold,
+  getAvailabilityForRange,
+  getAvailableGaps,
+  getNextAvailablePeriod,
+  isHoldExpired,
+  isSecondHoldAvailable,
+  mergeAvailability,
+} from './availability'
+
+function unitAvailability(unitId: string, periods: AvailabilityPeriod[]): UnitAvailability {
+  return { unitId, periods, lastUpdated: '2026-01-01' }
+}
+
+const SOLD_MARCH: AvailabilityPeriod = { startDate: '2026-03-01', endDate: '2026-03-31', status: 'sold', client: 'Acme' }
+const SOLD_APRIL: AvailabilityPeriod = { startDate: '2026-04-01', endDate: '2026-04-30', status: 'sold', client: 'Acme' }
+const HOLD_MID_MARCH: AvailabilityPeriod = { startDate: '2026-03-10', endDate: '2026-03-20', status: 'hold', client: 'Beta' }
+
+describe('mergeAvailability', () => {
+  const existing = new Map([
+    ['U-1', unitAvailability('U-1', [SOLD_MARCH, SOLD_APRIL])],
+    ['U-2', unitAvailability('U-2', [SOLD_MARCH])],
+  ])
+
+  it('replaces an imported unit\'s periods and keeps other units', () => {
+    const imported = new Map([['U-1', unitAvailability('U-1', [HOLD_MID_MARCH])]])
+    const merged = mergeAvailability(existing, imported, 'replace')
+
+    expect(merged.get('U-1')!.periods).toEqual([HOLD_MID_MARCH])
+    expect(merged.get('U-2')!.periods).toEqual([SOLD_MARCH])
+  })
+
+  it('appends imported periods in date order without duplicating identical ones', () => {
+    const imported = new Map([['U-1', unitAvailability('U-1', [SOLD_APRIL, HOLD_MID_MARCH])]])
+    const merged = mergeAvailability(existing, imported, 'append')
+
+    expect(merged.get('U-1')!.periods).toEqual([SOLD_MARCH, HOLD_MID_MARCH, SOLD_APRIL])
+  })
+
+  it('lets imported periods override existing ones on the dates they cover', () => {
+    const imported = new Map([['U-1', unitAvailability('U-1', [HOLD_MID_MARCH])]])
+    const merged = mergeAvailability(existing, imported, 'newest-wins')
+
+    expect(merged.get('U-1')!.periods).toEqual([
+      { ...SOLD_MARCH, endDate: '2026-03-09' },
+      HOLD_MID_MARCH,
+      { ...SOLD_MARCH, startDate: '2026-03-21' },
+      SOLD_APRIL,
+    ])
+  })
+
+  it('adds units that had no availability', () => {
+    const imported = new Map([['U-3', unitAvailability('U-3', [SOLD_APRIL])]])
+    const merged = mergeAvailability(existing, imported, 'newest-wins')
+
+    expect(merged.get('U-3')!.periods).toEqual([SOLD_APRIL])
+    expect(merged.size).toBe(3)
+  })
+})
+
+describe('diffAvailability', () => {
+  it('lists added and removed periods for units that change', () => {
+    const before = new Map([
+      ['U-1', unitAvailability('U-1', [SOLD_MARCH, SOLD_APRIL])],
+      ['U-2', unitAvailability('U-2', [SOLD_MARCH])],
+    ])
+    const after = new Map([
+      ['U-2', unitAvailability('U-2', [SOLD_MARCH])],
+      ['U-1', unitAvailability('U-1', [SOLD_MARCH, HOLD_MID_MARCH])],
+      ['U-3', unitAvailability('U-3', [SOLD_APRIL])],
+    ])
+
+    expect(diffAvailability(before, after)).toEqual([
+      { unitId: 'U-1', isNew: false, added: [HOLD_MID_MARCH], removed: [SOLD_APRIL] },
+      { unitId: 'U-3', isNew: true, added: [SOLD_APRIL], removed: [] },
+    ])
+  })
+
+  it('treats a change to any field as a removal and an addition', () => {
+    const renamed = { ...SOLD_MARCH, client: 'Acme Corp' }
+    const before = new Map([['U-1', unitAvailability('U-1', [SOLD_MARCH])]])
+    const after = new Map([['U-1', unitAvailability('U-1', [renamed])]])
+
+    expect(diffAvailability(before, after)).toEqual([
+      { unitId: 'U-1', isNew: false, added: [renamed], removed: [SOLD_MARCH] },
+    ])
+  })
+})
+
+describe('getAvailableGaps', () => {
+  // Default calendar periods: P2 Jan 26 - Feb 22, P3 Feb 23 - Mar 22, P4 Mar 23 - Apr 19, P5 Apr 20 - May 17
+  const availability = unitAvailability('U-1', [
+    { startDate: '2026-01-01', endDate: '2026-02-05', status: 'sold' },
+    { startDate: '2026-03-10', endDate: '2026-03-31', status: 'sold' },
+  ])
+
+  it('only counts whole open sales periods, like the next-available lookup', () => {
+    // Feb 6 - Mar 9 is 32 days open, but it straddles P2 and P3, which are both partly sold
+    const gaps = getAvailableGaps(availability, '2026-01-26', '2026-05-17', DEFAULT_CALENDAR, '2026-01-01')
+    const next = getNextAvailablePeriod(availability, '2026-01-26', DEFAULT_CALENDAR, '2026-01-01')
+
+    expect(gaps).toEqual([{ startDate: '2026-04-20', endDate: '2026-05-17' }])
+    expect(next?.startDate).toBe(gaps[0].startDate)
+  })
+
+  it('joins consecutive open periods and clips them to the range', () => {
+    // P4 is partly sold; P5 onward is open, and P7 runs past the range
+    expect(getAvailableGaps(availability, '2026-04-01', '2026-06-30', DEFAULT_CALENDAR, '2026-01-01')).toEqual([
+      { startDate: '2026-04-20', endDate: '2026-06-30' },
+    ])
+  })
+
+  it('uses the unit\'s own calendar', () => {
+    const weekly = { ...DEFAULT_CALENDAR, cycleDays: 7 }
+    // Weeks start on Mondays: Feb 9 - Mar 8 is four whole open weeks
+    expect(getAvailableGaps(availability, '2026-02-02', '2026-03-15', weekly, '2026-01-01')).toEqual([
+      { startDate: '2026-02-09', endDate: '2026-03-08' },
+    ])
+  })
+})
+
+describe('holds', () => {
+  const FIRST_HOLD: AvailabilityPeriod = {
+    startDate: '2026-03-01',
+    endDate: '2026-03-28',
+    status: 'hold',
+    client: 'Acme',
+    holdPosition: 1,
+    holdExpires: '2026-02-15',
+  }
+  const SECOND_HOLD: AvailabilityPeriod = { ...FIRST_HOLD, client: 'Beta', holdPosition: 2, holdExpires: '2026-02-12' }
+
+  it('keeps a hold through its expiry date', () => {
+    expect(isHoldExpired(FIRST_HOLD, '2026-02-15')).toBe(false)
+    expect(isHoldExpired(FIRST_HOLD, '2026-02-16')).toBe(true)
+  })
+
+  it('never expires holds without an expiry date, or periods that aren\'t holds', () => {
+    expect(isHoldExpired({ ...FIRST_HOLD, holdExpires: undefined }, '2030-01-01')).toBe(false)
+    expect(isHoldExpired({ ...FIRST_HOLD, status: 'sold' }, '2030-01-01')).toBe(false)
+  })
+
+  it('ignores lapsed holds when working out a flight\'s status', () => {
+    const availability = unitAvailability('U-1', [FIRST_HOLD])
+    expect(getAvailabilityForRange(availability, '2026-03-01', '2026-03-28', '2026-02-10')).toBe('hold')
+    expect(getAvailabilityForRange(availability, '2026-03-01', '2026-03-28', '2026-02-16')).toBe('available')
+  })
+
+  it('offers a 2nd hold only while no live 2nd hold is in the queue', () => {
+    expect(isSecondHoldAvailable(unitAvailability('U-1', [FIRST_HOLD]), '2026-03-01', '2026-03-28', '2026-02-10')).toBe(true)
+
+    const queued = unitAvailability('U-1', [FIRST_HOLD, SECOND_HOLD])
+    expect(isSecondHoldAvailable(queued, '2026-03-01', '2026-03-28', '2026-02-10')).toBe(false)
+    // The 2nd hold has lapsed while the 1st still stands
+    expect(isSecondHoldAvailable(queued, '2026-03-01', '2026-03-28', '2026-02-13')).toBe(true)
+  })
+
+  it('describes the queue position and expiry', () => {
+    expect(formatHold(SECOND_HOLD, '2026-02-10')).toBe('2nd hold, expires Feb 12, 2026')
+    expect(formatHold(FIRST_HOLD, '2026-02-16')).toBe('1st hold, expired Feb 15, 2026')
+    expect(formatHold({ ...FIRST_HOLD, holdPosition: undefined, holdExpires: undefined })).toBe('1st hold')
+    expect(formatHold(SOLD_MARCH)).toBe('')
+  })
+})
@@ -1,4 +1,16 @@
-import { UnitAvailability, AvailabilityStatus, AvailabilityPeriod } from './types'
+import {
+  UnitAvailability,
+  AvailabilityStatus,
+  AvailabilityPeriod,
+  DateRange,
+  MergeStrategy,
+  PeriodCalendar,
+  SalesPeriod,
+  PeriodConflict,
+  UnitAvailabilityDiff,
+} from './types'
+import { addDays, formatDateOnly, today } from './dates'
+import { DEFAULT_CALENDAR, getNextPeriod, getPeriodStartingFrom, getPeriodsInRange } from './periodCalendar'
 
 /**
  * Get the current availability status for a unit
@@ -6,30 +18,44 @@ import { UnitAvailability, AvailabilityStatus, AvailabilityPeriod } from './type
  */
 export function getCurrentAvailability(
   availability: UnitAvailability | undefined,
-  date: Date = new Date()
+  date: string = today()
 ): AvailabilityPeriod | null {
   if (!availability || availability.periods.length === 0) {
     return null
   }
 
-  const dateStr = date.toISOString().split('T')[0]
-
   // Find the period that contains the given date
   const activePeriod = availability.periods.find(period => {
-    return dateStr >= period.startDate && dateStr <= period.endDate
+    return date >= period.startDate && date <= period.endDate
   })
 
   return activePeriod || null
 }
 
+/**
+ * Check whether a hold has lapsed
+ * A hold stands through its expiry date; holds without one never lapse
+ */
+export function isHoldExpired(period: AvailabilityPeriod, asOf: string = today()): boolean {
+  return period.status === 'hold' && !!period.holdExpires && period.holdExpires < asOf
+}
+
+/**
+ * Check whether a period keeps a face from being sold (sold, or a hold that hasn't lapsed)
+ */
+function isBlocking(period: AvailabilityPeriod, asOf: string): boolean {
+  return period.status === 'sold' || (period.status === 'hold' && !isHoldExpired(period, asOf))
+}
+
 /**
  * Get availability status for a specific date range (e.g., campaign flight)
- * Returns the "worst" status if multiple periods overlap
+ * Returns the "worst" status if multiple periods overlap; expired holds are ignored
  */
 export function getAvailabilityForRange(
   availability: UnitAvailability | undefined,
   startDate: string,
-  endDate: string
+  endDate: string,
+  asOf: string = today()
 ): AvailabilityStatus {
   if (!availability || availability.periods.length === 0) {
     return 'available' // No data means assume available
@@ -47,7 +73,7 @@ export function getAvailabilityForRange(
 
   for (const period of availability.periods) {
     // Check if periods overlap
-    if (period.startDate <= endDate && period.endDate >= startDate) {
+    if (period.startDate <= endDate && period.endDate >= startDate && !isHoldExpired(period, asOf)) {
       if (statusPriority[period.status] > statusPriority[worstStatus]) {
         worstStatus = period.status
       }
@@ -57,6 +83,54 @@ export function getAvailabilityForRange(
   return worstStatus
 }
 
+/**
+ * Get a unit's status for a campaign flight
+ * Returns null when no availability has been imported for the unit
+ */
+export function getFlightStatus(
+  availability: UnitAvailability | undefined,
+  flight: DateRange
+): AvailabilityStatus | null {
+  if (!availability || availability.periods.length === 0) {
+    return null
+  }
+
+  return getAvailabilityForRange(availability, flight.startDate, flight.endDate)
+}
+
+/**
+ * Check whether a unit on hold for a date range can still take a 2nd hold
+ * True when the only live holds over the range are 1st position and nothing is sold
+ */
+export function isSecondHoldAvailable(
+  availability: UnitAvailability | undefined,
+  startDate: string,
+  endDate: string,
+  asOf: string = today()
+): boolean {
+  if (getAvailabilityForRange(availability, startDate, endDate, asOf) !== 'hold') {
+    return false
+  }
+
+  return !getOverlappingPeriods(availability, startDate, endDate)
+    .some(p => p.status === 'hold' && p.holdPosition === 2 && !isHoldExpired(p, asOf))
+}
+
+/**
+ * Describe a hold's queue position and expiry, e.g. "2nd hold, expires Mar 2, 2026"
+ * Returns an empty string for periods that aren't holds
+ */
+export function formatHold(period: AvailabilityPeriod, asOf: string = today()): string {
+  if (period.status !== 'hold') return ''
+
+  const position = period.holdPosition === 2 ? '2nd hold' : '1st hold'
+  if (!period.holdExpires) return position
+
+  return isHoldExpired(period, asOf)
+    ? `${position}, expired ${formatDateOnly(period.holdExpires)}`
+    : `${position}, expires ${formatDateOnly(period.holdExpires)}`
+}
+
 /**
  * Get all periods that overlap with a date range
  */
@@ -72,22 +146,186 @@ export function getOverlappingPeriods(
   })
 }
 
+/**
+ * Check whether any blocking period overlaps a date range
+ */
+function isRangeBlocked(blocking: AvailabilityPeriod[], range: DateRange): boolean {
+  return blocking.some(p => p.startDate <= range.endDate && p.endDate >= range.startDate)
+}
+
+/**
+ * Find open windows (not sold or on hold) within a date range
+ * A window is a run of whole sales periods on the unit's calendar with nothing
+ * blocking them, the same rule getNextAvailablePeriod uses, so the timeline
+ * only highlights what can actually be sold. Windows are clipped to the range.
+ */
+export function getAvailableGaps(
+  availability: UnitAvailability | undefined,
+  startDate: string,
+  endDate: string,
+  calendar: PeriodCalendar = DEFAULT_CALENDAR,
+  asOf: string = today()
+): DateRange[] {
+  const blocking = (availability?.periods || []).filter(p => isBlocking(p, asOf))
+
+  const gaps: DateRange[] = []
+  getPeriodsInRange(startDate, endDate, calendar).forEach(period => {
+    if (isRangeBlocked(blocking, period)) return
+
+    const last = gaps[gaps.length - 1]
+    if (last && addDays(last.endDate, 1) === period.startDate) {
+      last.endDate = period.endDate
+    } else {
+      gaps.push({ startDate: period.startDate, endDate: period.endDate })
+    }
+  })
+
+  return gaps.map(gap => ({
+    startDate: gap.startDate < startDate ? startDate : gap.startDate,
+    endDate: gap.endDate > endDate ? endDate : gap.endDate,
+  }))
+}
+
+/**
+ * Find periods that overlap each other within a single unit's list
+ * Overlaps with a different status or client are flagged as contradictions.
+ * A 1st and 2nd hold on the same dates are a normal queue, not a conflict.
+ */
+export function findPeriodConflicts(periods: AvailabilityPeriod[]): PeriodConflict[] {
+  const conflicts: PeriodConflict[] = []
+
+  for (let i = 0; i < periods.length; i++) {
+    for (let j = i + 1; j < periods.length; j++) {
+      const a = periods[i]
+      const b = periods[j]
+      if (a.startDate > b.endDate || b.startDate > a.endDate) continue
+      if (a.status === 'hold' && b.status === 'hold' && (a.holdPosition || 1) !== (b.holdPosition || 1)) continue
+
+      const contradicts = a.status !== b.status || (a.client || '') !== (b.client || '')
+      conflicts.push({ first: i, second: j, kind: contradicts ? 'contradiction' : 'overlap' })
+    }
+  }
+
+  return conflicts
+}
+
+/**
+ * Identity key for comparing periods between two availability sets
+ */
+function periodKey(period: AvailabilityPeriod): string {
+  return [
+    period.startDate,
+    period.endDate,
+    period.status,
+    period.client || '',
+    period.notes || '',
+    period.holdPosition || '',
+    period.holdExpires || '',
+  ].join('|')
+}
+
+/**
+ * Remove the days covered by `ranges` from a period, returning what is left
+ */
+function subtractRanges(period: AvailabilityPeriod, ranges: DateRange[]): AvailabilityPeriod[] {
+  const overlapping = ranges
+    .filter(r => r.startDate <= period.endDate && r.endDate >= period.startDate)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+
+  const fragments: AvailabilityPeriod[] = []
+  let cursor = period.startDate
+
+  for (const range of overlapping) {
+    if (range.startDate > cursor) {
+      fragments.push({ ...period, startDate: cursor, endDate: addDays(range.startDate, -1) })
+    }
+    const nextDay = addDays(range.endDate, 1)
+    if (nextDay > cursor) {
+      cursor = nextDay
+    }
+  }
+
+  if (cursor <= period.endDate) {
+    fragments.push({ ...period, startDate: cursor })
+  }
+
+  return fragments
+}
+
+/**
+ * Combine imported availability with what is already loaded
+ * - replace: each imported unit's periods replace the existing ones
+ * - append: imported periods are added alongside existing ones
+ * - newest-wins: imported periods override existing ones on the dates they cover
+ */
+export function mergeAvailability(
+  existing: Map<string, UnitAvailability>,
+  imported: Map<string, UnitAvailability>,
+  strategy: MergeStrategy
+): Map<string, UnitAvailability> {
+  const merged = new Map(existing)
+
+  imported.forEach((incoming, unitId) => {
+    const current = existing.get(unitId)
+    if (!current || strategy === 'replace') {
+      merged.set(unitId, incoming)
+      return
+    }
+
+    let kept = current.periods
+    if (strategy === 'newest-wins') {
+      kept = kept.flatMap(period => subtractRanges(period, incoming.periods))
+    }
+
+    const seen = new Set(kept.map(periodKey))
+    const periods = [...kept, ...incoming.periods.filter(p => !seen.has(periodKey(p)))]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+
+    merged.set(unitId, { ...incoming, periods })
+  })
+
+  return merged
+}
+
+/**
+ * List the per-unit period changes between two availability sets
+ * Only units that actually change are returned
+ */
+export function diffAvailability(
+  before: Map<string, UnitAvailability>,
+  after: Map<string, UnitAvailability>
+): UnitAvailabilityDiff[] {
+  const diffs: UnitAvailabilityDiff[] = []
+
+  after.forEach((next, unitId) => {
+    const previous = before.get(unitId)
+    const previousKeys = new Set((previous?.periods || []).map(periodKey))
+    const nextKeys = new Set(next.periods.map(periodKey))
+
+    const added = next.periods.filter(p => !previousKeys.has(periodKey(p)))
+    const removed = (previous?.periods || []).filter(p => !nextKeys.has(periodKey(p)))
+
+    if (added.length > 0 || removed.length > 0) {
+      diffs.push({ unitId, isNew: !previous, added, removed })
+    }
+  })
+
+  return diffs.sort((a, b) => a.unitId.localeCompare(b.unitId))
+}
+
 /**
  * Format a date range for display
  */
 export function formatDateRange(startDate: string, endDate: string): string {
-  const start = new Date(startDate)
-  const end = new Date(endDate)
-
   const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }
   const yearOptions: Intl.DateTimeFormatOptions = { ...options, year: 'numeric' }
 
   // If same year, don't repeat year
-  if (start.getFullYear() === end.getFullYear()) {
-    return `${start.toLocaleDateString('en-US', options)} - ${end.toLocaleDateString('en-US', yearOptions)}`
+  if (startDate.slice(0, 4) === endDate.slice(0, 4)) {
+    return `${formatDateOnly(startDate, options)} - ${formatDateOnly(endDate, yearOptions)}`
   }
 
-  return `${start.toLocaleDateString('en-US', yearOptions)} - ${end.toLocaleDateString('en-US', yearOptions)}`
+  return `${formatDateOnly(startDate, yearOptions)} - ${formatDateOnly(endDate, yearOptions)}`
 }
 
 /**
@@ -101,6 +339,7 @@ export function getStatusDisplay(status: AvailabilityStatus) {
         color: 'bg-green-100 text-green-800',
         dotColor: 'bg-green-500',
         borderColor: 'border-green-500',
+        hexColor: '#22C55E',
       }
     case 'sold':
       return {
@@ -108,6 +347,7 @@ export function getStatusDisplay(status: AvailabilityStatus) {
         color: 'bg-red-100 text-red-800',
         dotColor: 'bg-red-500',
         borderColor: 'border-red-500',
+        hexColor: '#EF4444',
       }
     case 'hold':
       return {
@@ -115,6 +355,7 @@ export function getStatusDisplay(status: AvailabilityStatus) {
         color: 'bg-amber-100 text-amber-800',
         dotColor: 'bg-amber-500',
         borderColor: 'border-amber-500',
+        hexColor: '#F59E0B',
       }
     case 'pending':
       return {
@@ -122,66 +363,44 @@ export function getStatusDisplay(status: AvailabilityStatus) {
         color: 'bg-blue-100 text-blue-800',
         dotColor: 'bg-blue-500',
         borderColor: 'border-blue-500',
+        hexColor: '#3B82F6',
       }
   }
 }
 
 /**
- * Generate a 4-week period starting from a date (standard OOH cycle)
+ * Get the first sellable period starting on or after a date
+ * On the default calendar this is the next standard 4-week OOH cycle
  */
-export function generate4WeekPeriod(startDate: Date = new Date()): { startDate: string; endDate: string } {
-  const start = new Date(startDate)
-  const end = new Date(start)
-  end.setDate(end.getDate() + 27) // 4 weeks = 28 days
-
-  return {
-    startDate: start.toISOString().split('T')[0],
-    endDate: end.toISOString().split('T')[0],
-  }
+export function generate4WeekPeriod(
+  startDate: string = today(),
+  calendar: PeriodCalendar = DEFAULT_CALENDAR
+): SalesPeriod {
+  return getPeriodStartingFrom(startDate, calendar)
 }
 
 /**
- * Get the next available 4-week period for a unit
+ * Get the next sellable period for a unit that isn't sold or on hold
+ * Looks up to three years ahead; expired holds don't block
  */
 export function getNextAvailablePeriod(
   availability: UnitAvailability | undefined,
-  startFrom: Date = new Date()
-): { startDate: string; endDate: string } | null {
-  if (!availability || availability.periods.length === 0) {
-    return generate4WeekPeriod(startFrom)
-  }
-
-  // Look for gaps in the sold/hold periods
-  const sortedPeriods = [...availability.periods]
-    .filter(p => p.status === 'sold' || p.status === 'hold')
-    .sort((a, b) => a.startDate.localeCompare(b.startDate))
-
-  let checkDate = new Date(startFrom)
-
-  for (const period of sortedPeriods) {
-    const periodStart = new Date(period.startDate)
-    const periodEnd = new Date(period.endDate)
-
-    if (checkDate < periodStart) {
-      // There's a gap before this period
-      const proposedEnd = new Date(checkDate)
-      proposedEnd.setDate(proposedEnd.getDate() + 27)
-
-      if (proposedEnd < periodStart) {
-        return {
-          startDate: checkDate.toISOString().split('T')[0],
-          endDate: proposedEnd.toISOString().split('T')[0],
-        }
-      }
-    }
+  startFrom: string = today(),
+  calendar: PeriodCalendar = DEFAULT_CALENDAR,
+  asOf: string = today()
+): SalesPeriod | null {
+  const blocking = (availability?.periods || []).filter(p => isBlocking(p, asOf))
+  const searchUntil = addDays(startFrom, 3 * 365)
 
-    // Move check date past this period
-    if (checkDate <= periodEnd) {
-      checkDate = new Date(periodEnd)
-      checkDate.setDate(checkDate.getDate() + 1)
+  for (
+    let period = generate4WeekPeriod(startFrom, calendar);
+    period.startDate <= searchUntil;
+    period = getNextPeriod(period, calendar)
+  ) {
+    if (!isRangeBlocked(blocking, period)) {
+      return period
     }
   }
 
-  // No blocking periods after checkDate, return 4 weeks from there
-  return generate4WeekPeriod(checkDate)
+  return null
 }
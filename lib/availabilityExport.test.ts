@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { AvailabilityPeriod, UnitAvailability } from './types'
+import { availabilityToCSV, availabilityToICS } from './availabilityExport'
+import { makeUnit } from './testUtils'
+
+const UNIT = makeUnit('DC-1', {
+  name: 'Georgia Ave Bulletin',
+  address: '123 Main St, Washington, DC',
+})
+
+const HOLD: AvailabilityPeriod = {
+  startDate: '2026-03-02',
+  endDate: '2026-03-29',
+  status: 'hold',
+  client: 'Acme',
+  holdPosition: 1,
+}
+
+function availabilityOf(periods: AvailabilityPeriod[], lastUpdated = '2026-02-01T12:00:00.000Z') {
+  return new Map<string, UnitAvailability>([[UNIT.id, { unitId: UNIT.id, periods, lastUpdated }]])
+}
+
+// Content lines with folding undone
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n')
+}
+
+function propertyValues(ics: string, name: string): string[] {
+  return unfold(ics)
+    .filter(line => line.startsWith(`${name}:`))
+    .map(line => line.slice(name.length + 1))
+}
+
+describe('availabilityToCSV', () => {
+  it('writes periods in the importer column layout, in date order', () => {
+    const sold: AvailabilityPeriod = { startDate: '2026-02-02', endDate: '2026-02-28', status: 'sold', client: 'Beta' }
+    const csv = availabilityToCSV([UNIT], availabilityOf([HOLD, sold]))
+
+    expect(csv.split('\r\n').slice(0, 3)).toEqual([
+      'unit_id,start_date,end_date,status,client,notes,hold_position,hold_expires',
+      'DC-1,2026-02-02,2026-02-28,sold,Beta,,,',
+      'DC-1,2026-03-02,2026-03-29,hold,Acme,,1,',
+    ])
+  })
+})
+
+describe('availabilityToICS', () => {
+  it('keeps event UIDs when a hold is sold or changes client', () => {
+    const before = availabilityToICS([UNIT], availabilityOf([HOLD]))
+    const after = availabilityToICS(
+      [UNIT],
+      availabilityOf([{ ...HOLD, status: 'sold', client: 'Acme Corp' }], '2026-02-10T09:30:00.000Z')
+    )
+
+    expect(propertyValues(before, 'UID')).toEqual(['DC-1-2026-03-02-2026-03-29@capitoloutdoor.com'])
+    expect(propertyValues(after, 'UID')).toEqual(propertyValues(before, 'UID'))
+    expect(Number(propertyValues(after, 'SEQUENCE')[0])).toBeGreaterThan(Number(propertyValues(before, 'SEQUENCE')[0]))
+    expect(propertyValues(after, 'LAST-MODIFIED')).toEqual(['20260210T093000Z'])
+  })
+
+  it('numbers periods that share a unit and dates', () => {
+    const second: AvailabilityPeriod = { ...HOLD, client: 'Beta', holdPosition: 2 }
+    const ics = availabilityToICS([UNIT], availabilityOf([HOLD, second]))
+
+    expect(propertyValues(ics, 'UID')).toEqual([
+      'DC-1-2026-03-02-2026-03-29@capitoloutdoor.com',
+      'DC-1-2026-03-02-2026-03-29-2@capitoloutdoor.com',
+    ])
+  })
+
+  it('writes all-day events with exclusive end dates', () => {
+    const ics = availabilityToICS([UNIT], availabilityOf([HOLD]))
+
+    expect(unfold(ics)).toContain('DTSTART;VALUE=DATE:20260302')
+    expect(unfold(ics)).toContain('DTEND;VALUE=DATE:20260330')
+  })
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const period: AvailabilityPeriod = {
+      ...HOLD,
+      status: 'sold',
+      client: 'Smith, Jones; Co',
+      notes: 'Line one\nC:\\path',
+    }
+    const ics = availabilityToICS([UNIT], availabilityOf([period]))
+
+    expect(propertyValues(ics, 'SUMMARY')).toEqual(['DC-1 Sold - Smith\\, Jones\\; Co'])
+    expect(propertyValues(ics, 'LOCATION')).toEqual(['123 Main St\\, Washington\\, DC'])
+    expect(propertyValues(ics, 'DESCRIPTION')).toEqual(['Georgia Ave Bulletin\\nLine one\\nC:\\\\path'])
+  })
+
+  it('folds long lines to 75 octets without splitting multi-byte characters', () => {
+    const period: AvailabilityPeriod = { ...HOLD, status: 'sold', notes: 'é'.repeat(100) }
+    const ics = availabilityToICS([UNIT], availabilityOf([period]))
+    const encoder = new TextEncoder()
+    const lines = ics.split('\r\n')
+
+    lines.forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75))
+    expect(lines.some(line => line.startsWith(' '))).toBe(true)
+    expect(propertyValues(ics, 'DESCRIPTION')).toEqual([`Georgia Ave Bulletin\\n${'é'.repeat(100)}`])
+  })
+})
@@ -0,0 +1,140 @@
+import { Unit, UnitAvailability, ImportField } from './types'
+import { IMPORT_FIELDS } from './columnMapping'
+import { formatCSV } from './csv'
+import { addDays } from './dates'
+import { formatHold, getStatusDisplay } from './availability'
+import { BRANDING } from './branding'
+
+/**
+ * Write availability as CSV in the column layout the importer reads
+ * Units without availability are left out; periods are ordered by start date
+ */
+export function availabilityToCSV(units: Unit[], availability: Map<string, UnitAvailability>): string {
+  const fields: ImportField[] = IMPORT_FIELDS.map(f => f.field)
+  const rows: string[][] = [fields]
+
+  units.forEach(unit => {
+    const periods = [...(availability.get(unit.id)?.periods || [])]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+
+    periods.forEach(period => {
+      const values: Record<ImportField, string> = {
+        unit_id: unit.id,
+        start_date: period.startDate,
+        end_date: period.endDate,
+        status: period.status,
+        client: period.client || '',
+        notes: period.notes || '',
+        hold_position: period.holdPosition ? String(period.holdPosition) : '',
+        hold_expires: period.holdExpires || '',
+      }
+      rows.push(fields.map(field => values[field]))
+    })
+  })
+
+  return formatCSV(rows)
+}
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 section 3.3.11)
+ */
+function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ * Splits between characters so multi-byte UTF-8 sequences stay whole
+ */
+function foldICSLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  Array.from(line).forEach(char => {
+    const size = encoder.encode(char).length
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length === 0 ? 75 : 74
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  })
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * A UTC date-time in iCalendar's basic format, e.g. 20260301T120000Z
+ */
+function formatICSTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+}
+
+/**
+ * Write availability as an iCalendar file with one all-day event per period
+ * Event UIDs are derived from the unit and dates only, so re-importing an
+ * updated export replaces events in the calendar instead of duplicating them,
+ * even after a hold is sold or the client changes. SEQUENCE and LAST-MODIFIED
+ * follow the unit's last update so calendars apply the newer version.
+ */
+export function availabilityToICS(units: Unit[], availability: Map<string, UnitAvailability>): string {
+  const now = new Date()
+  const stamp = formatICSTimestamp(now)
+  const host = BRANDING.website.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${BRANDING.companyName}//Inventory Map//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICSText(`${BRANDING.companyName} Availability`)}`,
+  ]
+  // Periods with the same unit and dates get a count suffix so UIDs stay unique
+  const uidCounts = new Map<string, number>()
+
+  units.forEach(unit => {
+    const unitAvailability = availability.get(unit.id)
+    const periods = [...(unitAvailability?.periods || [])]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    const updated = new Date(unitAvailability?.lastUpdated || '')
+    const modified = Number.isNaN(updated.getTime()) ? now : updated
+    // Seconds since the epoch, so each later update has a higher sequence
+    const sequence = Math.floor(modified.getTime() / 1000)
+
+    periods.forEach(period => {
+      const status = getStatusDisplay(period.status).label
+      const summary = `${unit.id} ${status}${period.client ? ` - ${period.client}` : ''}`
+      const description = [unit.name, formatHold(period), period.notes].filter(Boolean).join('\n')
+      const uidBase = `${unit.id}-${period.startDate}-${period.endDate}`
+      const count = (uidCounts.get(uidBase) || 0) + 1
+      uidCounts.set(uidBase, count)
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uidBase}${count > 1 ? `-${count}` : ''}@${host}`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${formatICSTimestamp(modified)}`,
+        `SEQUENCE:${sequence}`,
+        `DTSTART;VALUE=DATE:${period.startDate.replace(/-/g, '')}`,
+        // All-day end dates are exclusive, so the event ends the day after the period
+        `DTEND;VALUE=DATE:${addDays(period.endDate, 1).replace(/-/g, '')}`,
+        `SUMMARY:${escapeICSText(summary)}`,
+        `LOCATION:${escapeICSText(unit.address)}`,
+        `DESCRIPTION:${escapeICSText(description)}`,
+        `CATEGORIES:${escapeICSText(status)}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      )
+    })
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldICSLine).join('\r\n') + '\r\n'
+}
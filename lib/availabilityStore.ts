@@ -0,0 +1,116 @@
+import { AvailabilitySnapshot, UnitAvailability } from './types'
+
+const DB_NAME = 'capitol-map'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'availabilitySnapshots'
+
+// Number of imports kept so a bad import can be reverted
+export const MAX_AVAILABILITY_SNAPSHOTS = 10
+
+/**
+ * Opens (and creates on first use) the browser database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Runs a single operation against the snapshot store and resolves
+ * once its transaction has completed
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SNAPSHOT_STORE, mode)
+      const request = operation(transaction.objectStore(SNAPSHOT_STORE))
+
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Loads all stored availability snapshots, newest first
+ */
+export async function loadSnapshots(): Promise<AvailabilitySnapshot[]> {
+  const snapshots = await withStore<AvailabilitySnapshot[]>('readonly', store => store.getAll())
+  return snapshots.sort((a, b) => b.importedAt.localeCompare(a.importedAt))
+}
+
+/**
+ * Stores a snapshot and prunes the oldest ones beyond the history limit
+ */
+export async function saveSnapshot(snapshot: AvailabilitySnapshot): Promise<void> {
+  await withStore('readwrite', store => store.put(snapshot))
+
+  const snapshots = await loadSnapshots()
+  for (const stale of snapshots.slice(MAX_AVAILABILITY_SNAPSHOTS)) {
+    await deleteSnapshot(stale.id)
+  }
+}
+
+/**
+ * Removes a single snapshot
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+/**
+ * Removes every stored snapshot
+ */
+export async function clearSnapshots(): Promise<void> {
+  await withStore('readwrite', store => store.clear())
+}
+
+/**
+ * Builds a snapshot of the full availability state after an import
+ */
+export function createSnapshot(
+  availability: Map<string, UnitAvailability>,
+  fileName: string
+): AvailabilitySnapshot {
+  const importedAt = new Date().toISOString()
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    fileName,
+    importedAt,
+    units: Array.from(availability.values()),
+  }
+}
+
+/**
+ * Converts a stored snapshot back into the lookup map used by the app
+ */
+export function snapshotToMap(snapshot: AvailabilitySnapshot | undefined): Map<string, UnitAvailability> {
+  const map = new Map<string, UnitAvailability>()
+  snapshot?.units.forEach(unit => map.set(unit.unitId, unit))
+  return map
+}
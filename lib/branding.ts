@@ -0,0 +1,53 @@
+import { Branding, RepContact } from './types'
+import brandingData from '@/data/branding.json'
+
+export const BRANDING = brandingData as Branding
+
+const REP_STORAGE_KEY = 'capitol-map:rep'
+
+/**
+ * Convert a "#RRGGBB" color to the RGB tuple jsPDF expects
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Contact lines for the page footer: the rep's details, falling back to the
+ * office phone, then the website
+ */
+export function getContactLines(rep?: RepContact | null): string[] {
+  const office = `${BRANDING.office.name}: ${BRANDING.office.phone}`
+  if (!rep) {
+    return [office, BRANDING.website]
+  }
+  return [rep.name, rep.phone || office, rep.email, BRANDING.website].filter((line): line is string => !!line)
+}
+
+/**
+ * The rep last chosen in this browser, if any
+ */
+export function loadRep(): RepContact | null {
+  try {
+    const stored = localStorage.getItem(REP_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Remember the rep for the next share or download; null clears it
+ */
+export function saveRep(rep: RepContact | null): void {
+  try {
+    if (rep) {
+      localStorage.setItem(REP_STORAGE_KEY, JSON.stringify(rep))
+    } else {
+      localStorage.removeItem(REP_STORAGE_KEY)
+    }
+  } catch (err) {
+    console.error('Failed to save rep:', err)
+  }
+}
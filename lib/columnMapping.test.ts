@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { detectColumnMapping, isMappingComplete, normalizeHeader } from './columnMapping'
+
+describe('normalizeHeader', () => {
+  it('lowercases, trims and collapses whitespace', () => {
+    expect(normalizeHeader('  Hold   Expires ')).toBe('hold expires')
+  })
+})
+
+describe('detectColumnMapping', () => {
+  it('matches headers by alias regardless of case and spacing', () => {
+    const mapping = detectColumnMapping(['Unit ID', 'From', 'TO', 'Availability', 'Advertiser', 'Hold  Expiry'], {})
+
+    expect(mapping).toEqual({
+      unit_id: 0,
+      start_date: 1,
+      end_date: 2,
+      status: 3,
+      client: 4,
+      notes: -1,
+      hold_position: -1,
+      hold_expires: 5,
+    })
+    expect(isMappingComplete(mapping)).toBe(true)
+  })
+
+  it('prefers the header saved from the last import over the aliases', () => {
+    const mapping = detectColumnMapping(['id', 'Face Code', 'start', 'end', 'status'], { unit_id: 'face code' })
+    expect(mapping.unit_id).toBe(1)
+  })
+
+  it('falls back to the aliases when the saved header is missing', () => {
+    const mapping = detectColumnMapping(['id', 'start', 'end', 'status'], { unit_id: 'face code' })
+    expect(mapping.unit_id).toBe(0)
+  })
+
+  it('reports a mapping without every required field as incomplete', () => {
+    const mapping = detectColumnMapping(['Unit', 'Start', 'End', 'Status'], {})
+    expect(mapping.unit_id).toBe(-1)
+    expect(isMappingComplete(mapping)).toBe(false)
+  })
+})
@@ -0,0 +1,89 @@
+import { ImportField, ColumnMapping } from './types'
+
+export interface ImportFieldDefinition {
+  field: ImportField
+  label: string
+  required: boolean
+  aliases: string[] // Header names recognised without manual mapping
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'unit_id', label: 'Unit ID', required: true, aliases: ['unit_id', 'unitid', 'unit id', 'id'] },
+  { field: 'start_date', label: 'Start date', required: true, aliases: ['start_date', 'startdate', 'start', 'from'] },
+  { field: 'end_date', label: 'End date', required: true, aliases: ['end_date', 'enddate', 'end', 'to'] },
+  { field: 'status', label: 'Status', required: true, aliases: ['status', 'availability'] },
+  { field: 'client', label: 'Client', required: false, aliases: ['client', 'advertiser', 'customer'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'comments'] },
+  { field: 'hold_position', label: 'Hold position', required: false, aliases: ['hold_position', 'hold position', 'position', 'hold'] },
+  { field: 'hold_expires', label: 'Hold expires', required: false, aliases: ['hold_expires', 'hold expires', 'expires', 'expiry', 'hold expiry'] },
+]
+
+const STORAGE_KEY = 'capitol-map:column-mapping'
+
+/**
+ * Normalizes a header cell for comparison
+ */
+export function normalizeHeader(header: string): string {
+  return String(header).toLowerCase().trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Loads the header names the user last mapped to each field
+ */
+export function loadSavedMapping(): Partial<Record<ImportField, string>> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Remembers the header name mapped to each field for the next import
+ */
+export function saveMapping(headers: string[], mapping: ColumnMapping): void {
+  const saved: Partial<Record<ImportField, string>> = {}
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = mapping[field]
+    if (index >= 0 && headers[index] !== undefined) {
+      saved[field] = normalizeHeader(headers[index])
+    }
+  })
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved))
+  } catch (err) {
+    console.error('Failed to save column mapping:', err)
+  }
+}
+
+/**
+ * Matches file headers to import fields
+ * A previously saved mapping wins over the built-in aliases
+ * @returns Column index per field, -1 when no column matches
+ */
+export function detectColumnMapping(
+  headers: string[],
+  saved: Partial<Record<ImportField, string>> = loadSavedMapping()
+): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping = {} as ColumnMapping
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const savedHeader = saved[field]
+    const savedIndex = savedHeader ? normalized.indexOf(savedHeader) : -1
+    mapping[field] = savedIndex !== -1
+      ? savedIndex
+      : normalized.findIndex(h => aliases.includes(h))
+  })
+
+  return mapping
+}
+
+/**
+ * Whether every required field has a column
+ */
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  return IMPORT_FIELDS.every(({ field, required }) => !required || mapping[field] >= 0)
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { Proposal, UnitAvailability } from './types'
+import {
+  COMPARISON_COLORS,
+  SHARED_UNIT_COLOR,
+  compareProposals,
+  getComparisonColor,
+  getComparisonUnitColors,
+} from './comparison'
+import { calculatePricing } from './pricing'
+import { makeUnit } from './testUtils'
+
+const FLIGHT = { startDate: '2026-03-02', endDate: '2026-03-29' }
+
+function proposal(id: string, unitIds: string[]): Proposal {
+  return {
+    id,
+    title: `Option ${id}`,
+    advertiser: '',
+    flight: FLIGHT,
+    units: unitIds.map(unitId => ({ unitId })),
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+const UNITS = [
+  makeUnit('U-1', { market: 'Baltimore', dailyImpressions: 1000 }),
+  makeUnit('U-2', { market: 'Washington DC', dailyImpressions: 1000 }),
+  makeUnit('U-3', { market: 'Baltimore', dailyImpressions: 1000 }),
+  makeUnit('U-4', { market: 'Delaware', dailyImpressions: 1000 }),
+]
+
+const AVAILABILITY = new Map<string, UnitAvailability>([
+  ['U-2', { unitId: 'U-2', periods: [{ ...FLIGHT, status: 'sold' }], lastUpdated: '2026-01-01' }],
+  ['U-3', { unitId: 'U-3', periods: [{ startDate: '2026-06-01', endDate: '2026-06-28', status: 'sold' }], lastUpdated: '2026-01-01' }],
+])
+
+describe('compareProposals', () => {
+  const comparison = compareProposals(
+    [proposal('A', ['U-1', 'U-2', 'GONE']), proposal('B', ['U-2', 'U-3', 'U-4'])],
+    UNITS,
+    AVAILABILITY
+  )
+
+  it('lists each option\'s units, skipping units no longer in inventory', () => {
+    const [a, b] = comparison.options
+    expect(a.unitIds).toEqual(['U-1', 'U-2'])
+    expect(a.uniqueUnitIds).toEqual(['U-1'])
+    expect(b.uniqueUnitIds).toEqual(['U-3', 'U-4'])
+    expect(comparison.sharedUnitIds).toEqual(['U-2'])
+  })
+
+  it('sums markets, impressions, pricing and flight status per option', () => {
+    const [a, b] = comparison.options
+    expect(a.markets).toEqual(['Baltimore', 'Washington DC'])
+    expect(a.weeklyImpressions).toBe(14000)
+    expect(a.pricing).toEqual(calculatePricing([UNITS[0], UNITS[1]], FLIGHT))
+    expect(a.statusCounts).toEqual({ sold: 1 })
+    expect(b.statusCounts).toEqual({ sold: 1, available: 1 })
+  })
+})
+
+describe('comparison colors', () => {
+  it('cycles through the palette', () => {
+    expect(getComparisonColor(0)).toBe(COMPARISON_COLORS[0])
+    expect(getComparisonColor(COMPARISON_COLORS.length + 1)).toBe(COMPARISON_COLORS[1])
+  })
+
+  it('colors unique units by option and shared units in gray', () => {
+    const comparison = compareProposals([proposal('A', ['U-1', 'U-2']), proposal('B', ['U-2', 'U-3'])], UNITS, new Map())
+    expect(getComparisonUnitColors(comparison)).toEqual(
+      new Map([
+        ['U-1', COMPARISON_COLORS[0]],
+        ['U-3', COMPARISON_COLORS[1]],
+        ['U-2', SHARED_UNIT_COLOR],
+      ])
+    )
+  })
+})
@@ -0,0 +1,81 @@
+import { AvailabilityStatus, ComparisonOption, Proposal, ProposalComparison, Unit, UnitAvailability } from './types'
+import { getFlightStatus } from './availability'
+import { calculatePricing } from './pricing'
+
+// Map colors for each option's unique units, in option order
+export const COMPARISON_COLORS = ['#2563EB', '#F59E0B', '#7C3AED', '#0D9488', '#DB2777', '#92400E']
+
+// Map color for units that appear in more than one option
+export const SHARED_UNIT_COLOR = '#6B7280'
+
+/**
+ * Color for the option at a position, cycling once the palette runs out
+ */
+export function getComparisonColor(index: number): string {
+  return COMPARISON_COLORS[index % COMPARISON_COLORS.length]
+}
+
+/**
+ * Compare saved proposals side by side
+ * Each option is priced and checked against availability for its own flight
+ */
+export function compareProposals(
+  proposals: Proposal[],
+  units: Unit[],
+  availability: Map<string, UnitAvailability>
+): ProposalComparison {
+  const unitsById = new Map(units.map(u => [u.id, u]))
+
+  // How many options include each unit
+  const optionCounts = new Map<string, number>()
+  proposals.forEach(proposal => {
+    new Set(proposal.units.map(pu => pu.unitId)).forEach(id => {
+      optionCounts.set(id, (optionCounts.get(id) || 0) + 1)
+    })
+  })
+
+  const options: ComparisonOption[] = proposals.map(proposal => {
+    const optionUnits = proposal.units
+      .map(pu => unitsById.get(pu.unitId))
+      .filter((u): u is Unit => !!u)
+
+    const statusCounts: Partial<Record<AvailabilityStatus, number>> = {}
+    optionUnits.forEach(unit => {
+      const status = getFlightStatus(availability.get(unit.id), proposal.flight)
+      if (status) {
+        statusCounts[status] = (statusCounts[status] || 0) + 1
+      }
+    })
+
+    return {
+      proposalId: proposal.id,
+      title: proposal.title || 'Untitled proposal',
+      flight: proposal.flight,
+      unitIds: optionUnits.map(u => u.id),
+      uniqueUnitIds: optionUnits.filter(u => optionCounts.get(u.id) === 1).map(u => u.id),
+      markets: Array.from(new Set(optionUnits.map(u => u.market))).sort(),
+      weeklyImpressions: optionUnits.reduce((sum, u) => sum + (u.weeklyImpressions || u.dailyImpressions * 7), 0),
+      pricing: calculatePricing(optionUnits, proposal.flight, proposal.discountPercent),
+      statusCounts,
+    }
+  })
+
+  const sharedUnitIds = Array.from(optionCounts.entries())
+    .filter(([id, count]) => count > 1 && unitsById.has(id))
+    .map(([id]) => id)
+
+  return { options, sharedUnitIds }
+}
+
+/**
+ * Map fill color for every unit in a comparison: each option's color for its
+ * unique units, and the shared color for units in more than one option
+ */
+export function getComparisonUnitColors(comparison: ProposalComparison): Map<string, string> {
+  const colors = new Map<string, string>()
+  comparison.options.forEach((option, i) => {
+    option.uniqueUnitIds.forEach(id => colors.set(id, getComparisonColor(i)))
+  })
+  comparison.sharedUnitIds.forEach(id => colors.set(id, SHARED_UNIT_COLOR))
+  return colors
+}
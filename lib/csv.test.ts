@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { formatCSV, parseCSV } from './csv'
+
+describe('parseCSV', () => {
+  it('splits rows on CRLF, LF and CR without adding a row for a trailing break', () => {
+    expect(parseCSV('a,b\r\nc,d\ne,f\rg,h\r\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+      ['g', 'h'],
+    ])
+  })
+
+  it('reads quoted fields containing delimiters, line breaks and doubled quotes', () => {
+    expect(parseCSV('"Acme, Inc.","Line 1\r\nLine 2","Say ""hi"""\n')).toEqual([
+      ['Acme, Inc.', 'Line 1\r\nLine 2', 'Say "hi"'],
+    ])
+  })
+
+  it('keeps empty fields and leaves values untrimmed', () => {
+    expect(parseCSV('a,, b ,\n')).toEqual([['a', '', ' b ', '']])
+  })
+
+  it('treats quotes inside an unquoted field as text', () => {
+    expect(parseCSV('12" x 24",b')).toEqual([['12" x 24"', 'b']])
+  })
+
+  it('skips a UTF-8 byte order mark', () => {
+    expect(parseCSV('\uFEFFunit_id,status')).toEqual([['unit_id', 'status']])
+  })
+
+  it('uses the given delimiter', () => {
+    expect(parseCSV('a\tb,c\n', '\t')).toEqual([['a', 'b,c']])
+    expect(parseCSV('a;"b;c"\n', ';')).toEqual([['a', 'b;c']])
+  })
+})
+
+describe('formatCSV', () => {
+  it('quotes only fields that need it and ends rows with CRLF', () => {
+    expect(formatCSV([['plain', 'Acme, Inc.', 'Say "hi"', 'two\nlines']])).toBe(
+      'plain,"Acme, Inc.","Say ""hi""","two\nlines"\r\n'
+    )
+  })
+
+  it('quotes fields containing a custom delimiter', () => {
+    expect(formatCSV([['a\tb', 'c,d']], '\t')).toBe('"a\tb"\tc,d\r\n')
+  })
+
+  it('writes text that parseCSV reads back unchanged', () => {
+    const rows = [
+      ['unit_id', 'client', 'notes'],
+      ['AC-10D', 'Acme, Inc.', 'Says "rush"\r\nsecond line'],
+      ['AC-12', '', ''],
+    ]
+    expect(parseCSV(formatCSV(rows))).toEqual(rows)
+    expect(parseCSV(formatCSV(rows, ';'), ';')).toEqual(rows)
+  })
+})
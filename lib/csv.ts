@@ -0,0 +1,88 @@
+/**
+ * Parses delimited text following RFC 4180
+ * - Fields may be wrapped in double quotes
+ * - Quoted fields may contain delimiters and line breaks
+ * - A doubled quote ("") inside a quoted field is a literal quote
+ * - Rows end with CRLF, LF or CR; a trailing line break does not add a row
+ * @param text - Raw file contents
+ * @param delimiter - Field separator (comma by default)
+ * @returns Rows of field values, untrimmed
+ */
+export function parseCSV(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let i = 0
+
+  // Ignore a UTF-8 byte order mark written by Excel
+  if (text.charCodeAt(0) === 0xfeff) {
+    i = 1
+  }
+
+  const endField = () => {
+    row.push(field)
+    field = ''
+  }
+
+  const endRow = () => {
+    endField()
+    rows.push(row)
+    row = []
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      endField()
+    } else if (char === '\r' || char === '\n') {
+      endRow()
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+    } else {
+      field += char
+    }
+    i++
+  }
+
+  // Final row without a trailing line break
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Writes rows as RFC 4180 text that parseCSV reads back unchanged
+ * Fields containing the delimiter, quotes or line breaks are quoted; rows end with CRLF
+ * @param rows - Rows of field values
+ * @param delimiter - Field separator (comma by default)
+ */
+export function formatCSV(rows: string[][], delimiter: string = ','): string {
+  const formatField = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value
+
+  return rows.map(row => row.map(formatField).join(delimiter)).join('\r\n') + '\r\n'
+}
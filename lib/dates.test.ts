@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { addDays, dayOfWeek, daysBetween, formatDateOnly, isDateOnly, parseDateOnly, toDateOnly } from './dates'
+
+// Zones either side of UTC, where converting through a local Date shifts the day
+describe.each(['America/Los_Angeles', 'Pacific/Auckland'])('date-only helpers in %s', zone => {
+  const originalTZ = process.env.TZ
+
+  beforeAll(() => {
+    process.env.TZ = zone
+  })
+
+  afterAll(() => {
+    process.env.TZ = originalTZ
+  })
+
+  it('runs in the zone under test', () => {
+    expect(new Date('2026-01-01T00:00:00Z').getTimezoneOffset()).not.toBe(0)
+  })
+
+  it('validates calendar dates', () => {
+    expect(isDateOnly('2026-02-28')).toBe(true)
+    expect(isDateOnly('2026-02-29')).toBe(false)
+    expect(isDateOnly('2026-2-28')).toBe(false)
+  })
+
+  it('parses ISO and US dates to the same calendar day', () => {
+    expect(parseDateOnly('2026-03-01')).toBe('2026-03-01')
+    expect(parseDateOnly('2026/3/1')).toBe('2026-03-01')
+    expect(parseDateOnly(' 03/01/2026 ')).toBe('2026-03-01')
+    expect(parseDateOnly('3/1/26')).toBe('2026-03-01')
+    expect(parseDateOnly('02/30/2026')).toBeNull()
+    expect(parseDateOnly('March 1')).toBeNull()
+  })
+
+  it('adds and counts days across month ends and DST changes', () => {
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09')
+    expect(addDays('2026-03-31', 1)).toBe('2026-04-01')
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31')
+    expect(daysBetween('2026-03-01', '2026-04-05')).toBe(35)
+    expect(daysBetween('2026-11-01', '2026-10-25')).toBe(-7)
+  })
+
+  it('reads the day of the week without shifting', () => {
+    expect(dayOfWeek('2026-03-01')).toBe(0)
+    expect(dayOfWeek('2026-03-07')).toBe(6)
+  })
+
+  it('formats the stored day, not the local one', () => {
+    expect(formatDateOnly('2026-03-01')).toBe('Mar 1, 2026')
+    expect(formatDateOnly('2026-12-31', { month: 'short', day: 'numeric' })).toBe('Dec 31')
+  })
+
+  it('takes the local calendar day of a moment', () => {
+    expect(toDateOnly(new Date(2026, 2, 1, 23, 30))).toBe('2026-03-01')
+    expect(toDateOnly(new Date(2026, 2, 1, 0, 30))).toBe('2026-03-01')
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Date-only helpers for availability
+ *
+ * Availability dates are calendar days stored as "YYYY-MM-DD" strings. They
+ * are never turned into a local Date and back, because that shifts them by a
+ * day in browsers west of UTC. All arithmetic runs on UTC midnight, and all
+ * formatting is done in UTC, so a period covers the same days everywhere.
+ */
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const MS_PER_DAY = 86400000
+
+/**
+ * Builds a "YYYY-MM-DD" string from calendar parts
+ * @returns null if the parts don't form a real calendar date
+ */
+function fromParts(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null
+  }
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * UTC midnight timestamp for a date-only string
+ */
+function toUTCTime(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`)
+}
+
+/**
+ * Checks that a string is a valid "YYYY-MM-DD" calendar date
+ */
+export function isDateOnly(value: string): boolean {
+  const match = DATE_ONLY_PATTERN.exec(value)
+  return match !== null && fromParts(Number(match[1]), Number(match[2]), Number(match[3])) !== null
+}
+
+/**
+ * Parses a date typed by a person or exported from a spreadsheet
+ * Supports YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY and M/D/YY (years 00-99 are 2000-2099)
+ * @returns "YYYY-MM-DD", or null if the value isn't a valid date
+ */
+export function parseDateOnly(value: string): string | null {
+  const trimmed = value.trim()
+
+  const isoMatch = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(trimmed)
+  if (isoMatch) {
+    return fromParts(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]))
+  }
+
+  const usMatch = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/.exec(trimmed)
+  if (usMatch) {
+    const year = usMatch[3].length === 2 ? 2000 + Number(usMatch[3]) : Number(usMatch[3])
+    return fromParts(year, Number(usMatch[1]), Number(usMatch[2]))
+  }
+
+  return null
+}
+
+/**
+ * The calendar date of a moment in the browser's own timezone
+ */
+export function toDateOnly(date: Date): string {
+  return fromParts(date.getFullYear(), date.getMonth() + 1, date.getDate())!
+}
+
+/**
+ * Today's date where the user is
+ */
+export function today(): string {
+  return toDateOnly(new Date())
+}
+
+/**
+ * Adds (or with a negative count, subtracts) calendar days
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(toUTCTime(date) + days * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+/**
+ * Number of days from one date to another (0 when equal)
+ */
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((toUTCTime(endDate) - toUTCTime(startDate)) / MS_PER_DAY)
+}
+
+/**
+ * Day of the week, 0 = Sunday
+ */
+export function dayOfWeek(date: string): number {
+  return new Date(toUTCTime(date)).getUTCDay()
+}
+
+/**
+ * Formats a date-only string for display without any timezone shift
+ */
+export function formatDateOnly(
+  date: string,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' }
+): string {
+  return new Date(toUTCTime(date)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { loadBrowserImage, loadUnitImages, PDFImage, setImageLoader } from './images'
+import { makeUnit } from './testUtils'
+
+const IMAGE: PDFImage = { data: 'data:image/jpeg;base64,', format: 'JPEG', width: 4, height: 3 }
+
+describe('loadUnitImages', () => {
+  afterEach(() => setImageLoader(loadBrowserImage))
+
+  it('loads an image shared by several units once', async () => {
+    const loader = vi.fn().mockResolvedValue(IMAGE)
+    setImageLoader(loader)
+    const units = [makeUnit('DC-1', { image: '/images/a.jpg' }), makeUnit('DC-2', { image: '/images/a.jpg' })]
+
+    const images = await loadUnitImages(units)
+    await loadUnitImages(units)
+
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(images.get('DC-2')).toBe(IMAGE)
+  })
+
+  it('retries an image whose last load failed', async () => {
+    const loader = vi.fn().mockResolvedValueOnce(null).mockRejectedValueOnce(new Error('offline')).mockResolvedValue(IMAGE)
+    setImageLoader(loader)
+    const units = [makeUnit('DC-1', { image: '/images/a.jpg' })]
+
+    expect((await loadUnitImages(units)).get('DC-1')).toBeNull()
+    await expect(loadUnitImages(units)).rejects.toThrow('offline')
+    expect((await loadUnitImages(units)).get('DC-1')).toBe(IMAGE)
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,94 @@
+import { RepContact, Unit } from './types'
+import { BRANDING, getContactLines } from './branding'
+
+// Image loading shared by the PDF and PowerPoint generators, kept free of jsPDF
+// so the deck's chunk doesn't include it
+
+// An image already loaded as a data URL, with its pixel size for scaling
+export interface PDFImage {
+  data: string
+  format: 'JPEG' | 'PNG'
+  width: number
+  height: number
+}
+
+// Logo and contact details repeated in every page footer
+export interface PageBranding {
+  logo: PDFImage | null // Company name is drawn instead when the logo couldn't be loaded
+  contactLines: string[]
+}
+
+/**
+ * Load an image through the browser, re-encoding it with a canvas so PDFs
+ * and decks can embed it
+ * @returns null when the image couldn't be loaded
+ */
+export async function loadBrowserImage(src: string, format: PDFImage['format']): Promise<PDFImage | null> {
+  const url = src.startsWith('/') ? window.location.origin + src : src
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = img.width
+      canvas.height = img.height
+      const ctx = canvas.getContext('2d')
+      if (ctx) {
+        ctx.drawImage(img, 0, 0)
+        const data = format === 'PNG' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.8)
+        resolve({ data, format, width: img.width, height: img.height })
+      } else {
+        resolve(null)
+      }
+    }
+    img.onerror = () => resolve(null)
+    img.src = url
+  })
+}
+
+// Loads an image by its path under public/ (or a full URL)
+export type ImageLoader = (src: string, format: PDFImage['format']) => Promise<PDFImage | null>
+
+let imageLoader: ImageLoader = loadBrowserImage
+// Requests by image path, so photos and the logo load once per session
+// Failed loads are dropped so the next document tries again
+const imageRequests = new Map<string, Promise<PDFImage | null>>()
+
+/**
+ * Replace how unit photos and the logo are loaded, e.g. from disk when
+ * generating outside the browser
+ */
+export function setImageLoader(loader: ImageLoader): void {
+  imageLoader = loader
+  imageRequests.clear()
+}
+
+function loadImage(src: string, format: PDFImage['format']): Promise<PDFImage | null> {
+  let request = imageRequests.get(src)
+  if (!request) {
+    request = imageLoader(src, format)
+    imageRequests.set(src, request)
+    const forget = () => {
+      if (imageRequests.get(src) === request) imageRequests.delete(src)
+    }
+    request.then(image => image || forget(), forget)
+  }
+  return request
+}
+
+/**
+ * Load every unit image, keyed by unit ID
+ * Units sharing an image share the request
+ */
+export async function loadUnitImages(units: Unit[]): Promise<Map<string, PDFImage | null>> {
+  const loaded = await Promise.all(units.map(unit => loadImage(unit.image, 'JPEG')))
+  return new Map(units.map((unit, i) => [unit.id, loaded[i]]))
+}
+
+/**
+ * Footer branding for a document, with the rep's contact details when given
+ * The logo is loaded as PNG to keep its transparency
+ */
+export async function loadPageBranding(rep?: RepContact | null): Promise<PageBranding> {
+  return { logo: await loadImage(BRANDING.logoPng, 'PNG'), contactLines: getContactLines(rep) }
+}
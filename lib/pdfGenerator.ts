@@ -1,283 +1,402 @@
 import jsPDF from 'jspdf'
-import { Unit } from './types'
-
-const CAPITOL_RED = '#C41230'
-const CAPITOL_DARK = '#1A1A1A'
-const CAPITOL_GRAY = '#4A4A4A'
+import { AvailabilityStatus, DateRange, ProposalPricing, ReachEstimate, RepContact, Unit } from './types'
+import { formatPeople } from './reach'
+import { formatCurrency } from './pricing'
+import { formatDateRange } from './availability'
+import { BRANDING } from './branding'
+import {
+  PAGE_MARGIN,
+  PDF_COLORS,
+  PDF_TEMPLATES,
+  TemplateItem,
+  TemplateName,
+  TemplateResult,
+  UnitSheetContext,
+  contentBottom,
+  drawFooter,
+  setText,
+} from './pdfTemplates'
+import { PDFImage, PageBranding, loadPageBranding, loadUnitImages } from './images'
+
+// What a proposal PDF says about the proposal beyond its units
+export interface ProposalPDFDetails {
+  title?: string
+  advertiser?: string
+  flight?: DateRange
+  rep?: RepContact
+  unitStatuses?: Record<string, AvailabilityStatus>
+  unitNotes?: Record<string, string>
+  pricing?: ProposalPricing | null
+  reach?: ReachEstimate | null
+}
 
-export async function generateSellSheet(unit: Unit): Promise<jsPDF> {
-  const doc = new jsPDF({
+function createDocument(): jsPDF {
+  return new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
     format: 'letter'
   })
+}
 
-  const pageWidth = doc.internal.pageSize.getWidth()
-  const pageHeight = doc.internal.pageSize.getHeight()
-  const margin = 15
-
-  // Load and add unit image
-  try {
-    const imgUrl = unit.image.startsWith('/') ? window.location.origin + unit.image : unit.image
-    const imgData = await loadImageAsBase64(imgUrl)
-    if (imgData) {
-      // Image takes top portion of page
-      doc.addImage(imgData, 'JPEG', margin, margin, pageWidth - margin * 2, 90)
-    }
-  } catch (e) {
-    // Draw placeholder if image fails
-    doc.setFillColor(240, 240, 240)
-    doc.rect(margin, margin, pageWidth - margin * 2, 90, 'F')
-    doc.setFontSize(12)
-    doc.setTextColor(150, 150, 150)
-    doc.text('Image not available', pageWidth / 2, 60, { align: 'center' })
-  }
+/**
+ * Draw units with a template, starting on the document's current page
+ */
+export async function renderUnits(
+  doc: jsPDF,
+  template: TemplateName,
+  units: Unit[],
+  branding: PageBranding,
+  contexts: Record<string, UnitSheetContext> = {},
+  title?: string
+): Promise<TemplateResult> {
+  const { render, usesImages } = PDF_TEMPLATES[template]
+  const images = usesImages ? await loadUnitImages(units) : new Map<string, PDFImage | null>()
+
+  const items: TemplateItem[] = units.map(unit => ({
+    unit,
+    context: contexts[unit.id] || {},
+    image: images.get(unit.id) ?? null,
+  }))
+  return render(doc, items, branding, title)
+}
 
-  // Unit type badge
-  const typeLabel = unit.type.toUpperCase()
-  doc.setFillColor(196, 18, 48) // Capitol red
-  doc.roundedRect(margin, 110, 30, 8, 2, 2, 'F')
-  doc.setFontSize(8)
-  doc.setTextColor(255, 255, 255)
-  doc.text(typeLabel, margin + 15, 115.5, { align: 'center' })
-
-  // Unit ID
-  doc.setFontSize(28)
-  doc.setTextColor(26, 26, 26)
-  doc.setFont('helvetica', 'bold')
-  doc.text(unit.id, margin, 130)
-
-  // Address
-  doc.setFontSize(11)
-  doc.setFont('helvetica', 'normal')
-  doc.setTextColor(74, 74, 74)
-  const address = unit.address !== 'Address TBD' ? unit.address : `${unit.market}`
-  doc.text(address, margin, 138)
-
-  // Specs grid - 2 columns
-  const specY = 150
-  const col1X = margin
-  const col2X = pageWidth / 2 + 5
-  const rowHeight = 18
-
-  // Draw spec boxes
-  const drawSpec = (label: string, value: string, x: number, y: number) => {
-    doc.setFillColor(248, 248, 248)
-    doc.roundedRect(x, y, (pageWidth - margin * 2 - 10) / 2, rowHeight - 2, 2, 2, 'F')
-
-    doc.setFontSize(8)
-    doc.setTextColor(120, 120, 120)
-    doc.setFont('helvetica', 'normal')
-    doc.text(label, x + 4, y + 5)
-
-    doc.setFontSize(11)
-    doc.setTextColor(26, 26, 26)
-    doc.setFont('helvetica', 'bold')
-    doc.text(value, x + 4, y + 12)
+/**
+ * Build a PDF of units laid out with one template
+ * @param rep - Contact shown in the footer instead of the office
+ */
+export async function generateUnitsPDF(
+  units: Unit[],
+  template: TemplateName,
+  contexts?: Record<string, UnitSheetContext>,
+  rep?: RepContact | null
+): Promise<jsPDF> {
+  if (units.length === 0) {
+    throw new Error('No units provided')
   }
 
-  // Row 1
-  drawSpec('Size', unit.size || 'TBD', col1X, specY)
-  drawSpec('Weekly Impressions', (unit.weeklyImpressions || unit.dailyImpressions * 7).toLocaleString(), col2X, specY)
-
-  // Row 2
-  drawSpec('Facing', unit.facing || 'TBD', col1X, specY + rowHeight)
-  drawSpec('Illuminated', unit.illuminated ? 'Yes' : 'No', col2X, specY + rowHeight)
-
-  // Row 3
-  drawSpec('Latitude', unit.lat.toFixed(6), col1X, specY + rowHeight * 2)
-  drawSpec('Longitude', unit.lng.toFixed(6), col2X, specY + rowHeight * 2)
-
-  // Row 4
-  const readDirection = unit.streetViewHeading >= 180 ? 'Right-hand' : 'Left-hand'
-  drawSpec('Read', readDirection, col1X, specY + rowHeight * 3)
-  drawSpec('Geopath ID', unit.geopathId || 'TBD', col2X, specY + rowHeight * 3)
-
-  // Notes/Description
-  if (unit.notes && unit.notes.length > 0) {
-    const notesY = specY + rowHeight * 4 + 10
-    doc.setFontSize(10)
-    doc.setTextColor(74, 74, 74)
-    doc.setFont('helvetica', 'normal')
-
-    // Word wrap the notes
-    const maxWidth = pageWidth - margin * 2
-    const lines = doc.splitTextToSize(unit.notes, maxWidth)
-    doc.text(lines.slice(0, 4), margin, notesY) // Limit to 4 lines
-  }
+  const doc = createDocument()
+  await renderUnits(doc, template, units, await loadPageBranding(rep), contexts)
+  return doc
+}
+
+export async function generateSellSheet(
+  unit: Unit,
+  context?: UnitSheetContext,
+  rep?: RepContact | null
+): Promise<jsPDF> {
+  return generateUnitsPDF([unit], 'sell-sheet', context ? { [unit.id]: context } : undefined, rep)
+}
 
-  // Footer with Capitol branding
-  const footerY = pageHeight - 25
-
-  // Red line
-  doc.setDrawColor(196, 18, 48)
-  doc.setLineWidth(0.5)
-  doc.line(margin, footerY - 5, pageWidth - margin, footerY - 5)
-
-  // Capitol logo text (since we can't easily embed the logo)
-  doc.setFontSize(16)
-  doc.setTextColor(196, 18, 48)
-  doc.setFont('helvetica', 'bold')
-  doc.text('CAPITOL', margin, footerY + 2)
-  doc.setFontSize(10)
-  doc.text('OUTDOOR', margin, footerY + 7)
-
-  // Contact info
-  doc.setFontSize(9)
-  doc.setTextColor(74, 74, 74)
-  doc.setFont('helvetica', 'normal')
-  doc.text('DC Office: 202.337.1839', pageWidth - margin, footerY, { align: 'right' })
-  doc.text('chris@capitoloutdoor.com', pageWidth - margin, footerY + 5, { align: 'right' })
-  doc.text('CapitolOutdoor.com', pageWidth - margin, footerY + 10, { align: 'right' })
+export async function generateMultipleSellSheets(
+  units: Unit[],
+  contexts?: Record<string, UnitSheetContext>,
+  rep?: RepContact | null
+): Promise<jsPDF> {
+  return generateUnitsPDF(units, 'sell-sheet', contexts, rep)
+}
 
-  return doc
+/**
+ * Per-unit template context for a proposal
+ */
+function proposalContexts(units: Unit[], details: ProposalPDFDetails): Record<string, UnitSheetContext> {
+  const pricingById = new Map(details.pricing?.lines.map(line => [line.unitId, line]))
+  const contexts: Record<string, UnitSheetContext> = {}
+  units.forEach((unit, index) => {
+    contexts[unit.id] = {
+      number: index + 1,
+      status: details.unitStatuses?.[unit.id],
+      flight: details.flight,
+      pricing: pricingById.get(unit.id),
+      notes: details.unitNotes?.[unit.id],
+    }
+  })
+  return contexts
+}
+
+interface ContentsEntry {
+  title: string
+  page: number
+  isUnit?: boolean
 }
 
-export async function generateMultipleSellSheets(units: Unit[]): Promise<jsPDF> {
+const CONTENTS_PAGE = 2
+const CONTENTS_LINE_HEIGHT = 6.5
+
+/**
+ * Build a proposal PDF: cover, contents, summary table, a map page per
+ * market, reach (when there are population figures) and the unit pages.
+ * Units are numbered in proposal order on the table, map pins and unit pages.
+ * @param template - Layout for the unit pages (sell sheets by default)
+ */
+export async function generateProposalPDF(
+  units: Unit[],
+  details: ProposalPDFDetails,
+  template: TemplateName = 'sell-sheet'
+): Promise<jsPDF> {
   if (units.length === 0) {
     throw new Error('No units provided')
   }
 
-  // Generate first page
-  const doc = await generateSellSheet(units[0])
+  const doc = createDocument()
+  const branding = await loadPageBranding(details.rep)
+  const contexts = proposalContexts(units, details)
+  const contents: ContentsEntry[] = []
 
-  // Add subsequent pages
-  for (let i = 1; i < units.length; i++) {
+  // Every section starts on a new page
+  const startSection = (title: string) => {
     doc.addPage()
-    const tempDoc = await generateSellSheet(units[i])
+    contents.push({ title, page: doc.getNumberOfPages() })
+  }
+
+  addCoverPage(doc, units, details, branding.logo)
+  doc.addPage() // Contents, filled in once every page number is known
+
+  startSection('Proposal Summary')
+  const table = await renderUnits(doc, 'table', units, branding, contexts, 'Proposal Summary')
+  addTotals(doc, units, details.pricing, table.endY, branding)
+
+  startSection('Maps')
+  await renderUnits(doc, 'map', units, branding, contexts, 'Map')
 
-    // Copy content from temp doc to main doc
-    // Since jsPDF doesn't support copying, we regenerate on each page
-    const unit = units[i]
-    await addUnitPage(doc, unit)
+  if (details.reach && details.reach.markets.length > 0) {
+    addReachPage(doc, details.reach, branding)
+    contents.push({ title: 'Reach & Frequency', page: doc.getNumberOfPages() })
   }
 
+  startSection('Units')
+  const unitSection = await renderUnits(doc, template, units, branding, contexts)
+  units.forEach((unit, i) => {
+    contents.push({ title: `${i + 1}. ${unit.id} · ${unit.market}`, page: unitSection.unitPages[i], isUnit: true })
+  })
+
+  addContentsPage(doc, contents, branding)
+  addPageNumbers(doc)
   return doc
 }
 
-async function addUnitPage(doc: jsPDF, unit: Unit): Promise<void> {
+/**
+ * Fill in the contents page; units are listed under their section when they fit
+ */
+function addContentsPage(doc: jsPDF, contents: ContentsEntry[], branding: PageBranding): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = PAGE_MARGIN
+  const top = 40
+  const fitsUnits = top + contents.length * CONTENTS_LINE_HEIGHT <= contentBottom(doc)
+  const entries = fitsUnits ? contents : contents.filter(entry => !entry.isUnit)
+
+  doc.setPage(CONTENTS_PAGE)
+  setText(doc, 20, PDF_COLORS.dark, 'bold')
+  doc.text('Contents', margin, 25)
+
+  let y = top
+  entries.forEach(entry => {
+    const x = entry.isUnit ? margin + 6 : margin
+    setText(doc, entry.isUnit ? 9 : 11, entry.isUnit ? PDF_COLORS.gray : PDF_COLORS.dark, entry.isUnit ? 'normal' : 'bold')
+    doc.text(entry.title, x, y)
+    doc.text(String(entry.page), pageWidth - margin, y, { align: 'right' })
+
+    // Dotted leader between the title and its page number
+    doc.setDrawColor(...PDF_COLORS.rule)
+    doc.setLineWidth(0.2)
+    doc.setLineDashPattern([0.5, 1], 0)
+    doc.line(x + doc.getTextWidth(entry.title) + 2, y, pageWidth - margin - doc.getTextWidth(String(entry.page)) - 2, y)
+    doc.setLineDashPattern([], 0)
+
+    y += CONTENTS_LINE_HEIGHT
+  })
+
+  drawFooter(doc, branding)
+}
+
+/**
+ * Number every page after the cover, e.g. "Page 3 of 12"
+ */
+function addPageNumbers(doc: jsPDF): void {
   const pageWidth = doc.internal.pageSize.getWidth()
   const pageHeight = doc.internal.pageSize.getHeight()
-  const margin = 15
-
-  // Load and add unit image
-  try {
-    const imgUrl = unit.image.startsWith('/') ? window.location.origin + unit.image : unit.image
-    const imgData = await loadImageAsBase64(imgUrl)
-    if (imgData) {
-      doc.addImage(imgData, 'JPEG', margin, margin, pageWidth - margin * 2, 90)
-    }
-  } catch (e) {
-    doc.setFillColor(240, 240, 240)
-    doc.rect(margin, margin, pageWidth - margin * 2, 90, 'F')
-    doc.setFontSize(12)
-    doc.setTextColor(150, 150, 150)
-    doc.text('Image not available', pageWidth / 2, 60, { align: 'center' })
+  const total = doc.getNumberOfPages()
+
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page)
+    setText(doc, 8, PDF_COLORS.muted)
+    doc.text(`Page ${page} of ${total}`, pageWidth / 2, pageHeight - 8, { align: 'center' })
   }
+}
 
-  // Unit type badge
-  const typeLabel = unit.type.toUpperCase()
-  doc.setFillColor(196, 18, 48)
-  doc.roundedRect(margin, 110, 30, 8, 2, 2, 'F')
-  doc.setFontSize(8)
-  doc.setTextColor(255, 255, 255)
-  doc.text(typeLabel, margin + 15, 115.5, { align: 'center' })
-
-  // Unit ID
-  doc.setFontSize(28)
-  doc.setTextColor(26, 26, 26)
-  doc.setFont('helvetica', 'bold')
-  doc.text(unit.id, margin, 130)
-
-  // Address
-  doc.setFontSize(11)
-  doc.setFont('helvetica', 'normal')
-  doc.setTextColor(74, 74, 74)
-  const address = unit.address !== 'Address TBD' ? unit.address : `${unit.market}`
-  doc.text(address, margin, 138)
-
-  // Specs grid
-  const specY = 150
-  const col1X = margin
-  const col2X = pageWidth / 2 + 5
-  const rowHeight = 18
-
-  const drawSpec = (label: string, value: string, x: number, y: number) => {
-    doc.setFillColor(248, 248, 248)
-    doc.roundedRect(x, y, (pageWidth - margin * 2 - 10) / 2, rowHeight - 2, 2, 2, 'F')
-
-    doc.setFontSize(8)
-    doc.setTextColor(120, 120, 120)
-    doc.setFont('helvetica', 'normal')
-    doc.text(label, x + 4, y + 5)
-
-    doc.setFontSize(11)
-    doc.setTextColor(26, 26, 26)
-    doc.setFont('helvetica', 'bold')
-    doc.text(value, x + 4, y + 12)
+function addCoverPage(doc: jsPDF, units: Unit[], details: ProposalPDFDetails, logo: PDFImage | null): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const margin = PAGE_MARGIN
+
+  // Red band across the top
+  doc.setFillColor(...PDF_COLORS.red)
+  doc.rect(0, 0, pageWidth, 70, 'F')
+  if (logo) {
+    const height = 24
+    doc.addImage(logo.data, logo.format, margin, 23, (height * logo.width) / logo.height, height)
+  } else {
+    setText(doc, 28, [255, 255, 255], 'bold')
+    doc.text(BRANDING.companyName.toUpperCase(), margin, 40)
   }
 
-  drawSpec('Size', unit.size || 'TBD', col1X, specY)
-  drawSpec('Weekly Impressions', (unit.weeklyImpressions || unit.dailyImpressions * 7).toLocaleString(), col2X, specY)
-  drawSpec('Facing', unit.facing || 'TBD', col1X, specY + rowHeight)
-  drawSpec('Illuminated', unit.illuminated ? 'Yes' : 'No', col2X, specY + rowHeight)
-  drawSpec('Latitude', unit.lat.toFixed(6), col1X, specY + rowHeight * 2)
-  drawSpec('Longitude', unit.lng.toFixed(6), col2X, specY + rowHeight * 2)
-
-  const readDirection = unit.streetViewHeading >= 180 ? 'Right-hand' : 'Left-hand'
-  drawSpec('Read', readDirection, col1X, specY + rowHeight * 3)
-  drawSpec('Geopath ID', unit.geopathId || 'TBD', col2X, specY + rowHeight * 3)
-
-  if (unit.notes && unit.notes.length > 0) {
-    const notesY = specY + rowHeight * 4 + 10
-    doc.setFontSize(10)
-    doc.setTextColor(74, 74, 74)
-    doc.setFont('helvetica', 'normal')
-    const maxWidth = pageWidth - margin * 2
-    const lines = doc.splitTextToSize(unit.notes, maxWidth)
-    doc.text(lines.slice(0, 4), margin, notesY)
+  setText(doc, 12, PDF_COLORS.muted)
+  doc.text('PROPOSAL', margin, 100)
+
+  setText(doc, 26, PDF_COLORS.dark, 'bold')
+  const heading = details.advertiser || details.title || 'Out-of-Home Proposal'
+  const headingLines = doc.splitTextToSize(heading, pageWidth - margin * 2)
+  doc.text(headingLines, margin, 113)
+
+  let y = 113 + headingLines.length * 11
+  setText(doc, 13, PDF_COLORS.gray)
+  if (details.advertiser && details.title) {
+    doc.text(details.title, margin, y)
+    y += 8
+  }
+  if (details.flight) {
+    doc.text(`Flight: ${formatDateRange(details.flight.startDate, details.flight.endDate)}`, margin, y)
+    y += 8
+  }
+  const markets = Array.from(new Set(units.map(u => u.market)))
+  const unitLine = `${units.length} unit${units.length !== 1 ? 's' : ''} in ${markets.join(', ')}`
+  doc.text(doc.splitTextToSize(unitLine, pageWidth - margin * 2), margin, y)
+
+  if (details.rep) {
+    const { name, phone, email } = details.rep
+    setText(doc, 9, PDF_COLORS.muted)
+    doc.text('PREPARED BY', margin, pageHeight - 52)
+    setText(doc, 13, PDF_COLORS.dark, 'bold')
+    doc.text(name, margin, pageHeight - 45)
+    setText(doc, 10, PDF_COLORS.gray)
+    doc.text([phone, email].filter(Boolean).join('  ·  '), margin, pageHeight - 39)
   }
 
-  // Footer
-  const footerY = pageHeight - 25
-  doc.setDrawColor(196, 18, 48)
-  doc.setLineWidth(0.5)
-  doc.line(margin, footerY - 5, pageWidth - margin, footerY - 5)
-
-  doc.setFontSize(16)
-  doc.setTextColor(196, 18, 48)
-  doc.setFont('helvetica', 'bold')
-  doc.text('CAPITOL', margin, footerY + 2)
-  doc.setFontSize(10)
-  doc.text('OUTDOOR', margin, footerY + 7)
-
-  doc.setFontSize(9)
-  doc.setTextColor(74, 74, 74)
-  doc.setFont('helvetica', 'normal')
-  doc.text('DC Office: 202.337.1839', pageWidth - margin, footerY, { align: 'right' })
-  doc.text('chris@capitoloutdoor.com', pageWidth - margin, footerY + 5, { align: 'right' })
-  doc.text('CapitolOutdoor.com', pageWidth - margin, footerY + 10, { align: 'right' })
+  setText(doc, 9, PDF_COLORS.muted)
+  doc.text(
+    `Prepared ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`,
+    margin,
+    pageHeight - 20
+  )
+  doc.text(BRANDING.website, pageWidth - margin, pageHeight - 20, { align: 'right' })
 }
 
-async function loadImageAsBase64(url: string): Promise<string | null> {
-  return new Promise((resolve) => {
-    const img = new Image()
-    img.crossOrigin = 'anonymous'
-    img.onload = () => {
-      const canvas = document.createElement('canvas')
-      canvas.width = img.width
-      canvas.height = img.height
-      const ctx = canvas.getContext('2d')
-      if (ctx) {
-        ctx.drawImage(img, 0, 0)
-        resolve(canvas.toDataURL('image/jpeg', 0.8))
-      } else {
-        resolve(null)
-      }
+/**
+ * Impression and pricing totals under the summary table
+ * @param y - Where the table ended on the current page
+ */
+function addTotals(
+  doc: jsPDF,
+  units: Unit[],
+  pricing: ProposalPricing | null | undefined,
+  y: number,
+  branding: PageBranding
+): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = PAGE_MARGIN
+
+  const totalWeekly = units.reduce((sum, u) => sum + (u.weeklyImpressions || u.dailyImpressions * 7), 0)
+  const totals = [{ label: 'Weekly Impressions', value: totalWeekly.toLocaleString() }]
+  if (pricing && pricing.lines.length > 0) {
+    totals.push({ label: 'Gross', value: formatCurrency(pricing.gross) })
+    totals.push({
+      label: pricing.discountPercent > 0 ? `Net (${pricing.discountPercent}% media discount)` : 'Net',
+      value: formatCurrency(pricing.net),
+    })
+    if (pricing.cpm !== null) {
+      totals.push({ label: 'CPM', value: formatCurrency(pricing.cpm, true) })
     }
-    img.onerror = () => resolve(null)
-    img.src = url
+  }
+
+  if (y + 10 + totals.length * 7 > contentBottom(doc)) {
+    doc.addPage()
+    drawFooter(doc, branding)
+    y = 20
+  }
+  y += 8
+  totals.forEach(total => {
+    setText(doc, 10, PDF_COLORS.gray)
+    doc.text(total.label, pageWidth - margin - 50, y, { align: 'right' })
+    setText(doc, 10, PDF_COLORS.dark, 'bold')
+    doc.text(total.value, pageWidth - margin, y, { align: 'right' })
+    y += 7
   })
+
+  if (pricing && pricing.unpricedUnitIds.length > 0) {
+    setText(doc, 8, PDF_COLORS.muted)
+    const note = `Pricing excludes units without a rate card: ${pricing.unpricedUnitIds.join(', ')}`
+    doc.text(doc.splitTextToSize(note, pageWidth - margin * 2), margin, y + 3)
+  }
+}
+
+/**
+ * Add a page with the reach and frequency estimate and its per-market breakdown
+ */
+export function addReachPage(doc: jsPDF, estimate: ReachEstimate, branding: PageBranding): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = PAGE_MARGIN
+
+  doc.addPage()
+
+  setText(doc, 20, PDF_COLORS.dark, 'bold')
+  doc.text('Reach & Frequency', margin, 25)
+
+  // Headline figures
+  const boxWidth = (pageWidth - margin * 2 - 10) / 3
+  const stats = [
+    { label: `Reach (${formatPeople(estimate.reach)} adults)`, value: `${estimate.reachPercent.toFixed(1)}%` },
+    { label: 'Average Frequency', value: estimate.frequency.toFixed(1) },
+    { label: 'GRPs', value: Math.round(estimate.grp).toString() },
+  ]
+  stats.forEach((stat, i) => {
+    const x = margin + i * (boxWidth + 5)
+    doc.setFillColor(...PDF_COLORS.panel)
+    doc.roundedRect(x, 35, boxWidth, 24, 2, 2, 'F')
+    setText(doc, 18, PDF_COLORS.red, 'bold')
+    doc.text(stat.value, x + boxWidth / 2, 47, { align: 'center' })
+    setText(doc, 8, PDF_COLORS.muted)
+    doc.text(stat.label, x + boxWidth / 2, 54, { align: 'center' })
+  })
+
+  // Per-market table
+  const columns = [
+    { label: 'Market', x: margin, align: 'left' as const },
+    { label: 'Adults 18+', x: margin + 85, align: 'right' as const },
+    { label: 'GRPs', x: margin + 115, align: 'right' as const },
+    { label: 'Reach', x: margin + 145, align: 'right' as const },
+    { label: 'Frequency', x: pageWidth - margin, align: 'right' as const },
+  ]
+  let y = 75
+  setText(doc, 9, PDF_COLORS.muted, 'bold')
+  columns.forEach(col => doc.text(col.label, col.x, y, { align: col.align }))
+
+  doc.setDrawColor(...PDF_COLORS.rule)
+  doc.setLineWidth(0.2)
+  setText(doc, 9, PDF_COLORS.dark)
+  estimate.markets.forEach(m => {
+    doc.line(margin, y + 2.5, pageWidth - margin, y + 2.5)
+    y += 8
+    const values = [
+      m.market,
+      formatPeople(m.population),
+      Math.round(m.grp).toString(),
+      `${m.reachPercent.toFixed(1)}%`,
+      m.frequency.toFixed(1),
+    ]
+    columns.forEach((col, i) => doc.text(values[i], col.x, y, { align: col.align }))
+  })
+
+  // Method note
+  y += 15
+  setText(doc, 8, PDF_COLORS.muted)
+  const note = 'Estimates over the flight. GRPs are flight impressions as a percent of each market\'s adult population; ' +
+    'reach follows a negative exponential curve on GRPs and frequency is GRPs divided by reach. ' +
+    'These are planning estimates, not audited Geopath reach.' +
+    (estimate.unmeasuredMarkets.length > 0
+      ? ` Not included (no population data): ${estimate.unmeasuredMarkets.join(', ')}.`
+      : '')
+  doc.text(doc.splitTextToSize(note, pageWidth - margin * 2), margin, y)
+
+  drawFooter(doc, branding)
 }
 
 export function downloadPDF(doc: jsPDF, filename: string): void {
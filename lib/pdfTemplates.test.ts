@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest'
+import jsPDF from 'jspdf'
+import { PageBranding, PDFImage } from './images'
+import { contentBottom, PDF_TEMPLATES, TemplateItem } from './pdfTemplates'
+import { makeUnit } from './testUtils'
+
+const BRANDING: PageBranding = { logo: null, contactLines: [] }
+
+// 1x1 transparent PNG
+const PNG: PDFImage = {
+  data: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  format: 'PNG',
+  width: 1,
+  height: 1,
+}
+
+function mapItems(count: number): TemplateItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    unit: makeUnit(`DC-${i + 1}`, { lat: 38.9 + i * 0.001, lng: -77.03 + i * 0.001 }),
+    context: { number: i + 1 },
+    image: null,
+  }))
+}
+
+describe('map template', () => {
+  it('continues a long key onto new pages', () => {
+    const doc = new jsPDF()
+    const text = vi.spyOn(doc, 'text')
+
+    const result = PDF_TEMPLATES.map.render(doc, mapItems(90), BRANDING)
+
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1)
+    const keyEntries = text.mock.calls.filter(([value]) => String(value).startsWith('DC-'))
+    expect(keyEntries).toHaveLength(90)
+    keyEntries.forEach(([, , y]) => expect(y).toBeLessThanOrEqual(contentBottom(doc)))
+    // Every pin is on the map page
+    expect(new Set(result.unitPages)).toEqual(new Set([1]))
+  })
+
+  it('keeps a short key on the map page', () => {
+    const doc = new jsPDF()
+    PDF_TEMPLATES.map.render(doc, mapItems(6), BRANDING)
+    expect(doc.getNumberOfPages()).toBe(1)
+  })
+})
+
+describe('sell sheet template', () => {
+  it('embeds photos in the format they were loaded as', () => {
+    const doc = new jsPDF()
+    const addImage = vi.spyOn(doc, 'addImage')
+
+    PDF_TEMPLATES['sell-sheet'].render(doc, [{ unit: makeUnit('DC-1'), context: {}, image: PNG }], BRANDING)
+
+    expect(addImage).toHaveBeenCalledWith(PNG.data, 'PNG', expect.any(Number), expect.any(Number), expect.any(Number), expect.any(Number))
+  })
+})
@@ -0,0 +1,537 @@
+import jsPDF from 'jspdf'
+import { AvailabilityStatus, DateRange, Unit, UnitPricing } from './types'
+import { getStatusDisplay } from './availability'
+import { formatCurrency } from './pricing'
+import { BRANDING, hexToRgb } from './branding'
+import type { PageBranding, PDFImage } from './images'
+
+/**
+ * Page layouts for unit PDFs
+ *
+ * A template draws a list of units onto the document, starting on the
+ * current page and adding pages as it fills them. Images are loaded by the
+ * caller before rendering, so each one is fetched once however many
+ * templates use it, and templates stay synchronous.
+ */
+
+// Proposal details a template can show next to a unit's specs
+export interface UnitSheetContext {
+  status?: AvailabilityStatus // For the flight
+  flight?: DateRange
+  pricing?: UnitPricing
+  notes?: string // Proposal note for the unit
+  number?: number // Position in the proposal, matching the map pins
+}
+
+export interface TemplateItem {
+  unit: Unit
+  context: UnitSheetContext
+  image: PDFImage | null // Null when the image couldn't be loaded
+}
+
+export type TemplateName = 'sell-sheet' | 'contact-2up' | 'contact-4up' | 'table' | 'map'
+
+export interface TemplateResult {
+  endY: number // Where content ended on the last page
+  unitPages: number[] // Page each item was drawn on, in item order
+}
+
+export interface PDFTemplate {
+  label: string
+  usesImages: boolean
+  render: (doc: jsPDF, items: TemplateItem[], branding: PageBranding, title?: string) => TemplateResult
+}
+
+type RGB = [number, number, number]
+
+export const PDF_COLORS: Record<'red' | 'dark' | 'gray' | 'muted' | 'panel' | 'rule' | 'placeholder', RGB> = {
+  red: hexToRgb(BRANDING.colors.primary),
+  dark: hexToRgb(BRANDING.colors.dark),
+  gray: hexToRgb(BRANDING.colors.gray),
+  muted: [120, 120, 120],
+  panel: [248, 248, 248],
+  rule: [220, 220, 220],
+  placeholder: [240, 240, 240],
+}
+
+export const PAGE_MARGIN = 15
+const FOOTER_HEIGHT = 30 // Space kept clear for the footer at the bottom of each page
+
+/**
+ * Set font size, color and weight in one call
+ */
+export function setText(doc: jsPDF, size: number, color: RGB, style: 'normal' | 'bold' | 'italic' = 'normal'): void {
+  doc.setFontSize(size)
+  doc.setTextColor(...color)
+  doc.setFont(BRANDING.fonts.pdf, style)
+}
+
+/**
+ * Bottom of the area templates may draw in
+ */
+export function contentBottom(doc: jsPDF): number {
+  return doc.internal.pageSize.getHeight() - FOOTER_HEIGHT
+}
+
+/**
+ * Logo and contact details along the bottom of a page
+ */
+export function drawFooter(doc: jsPDF, branding: PageBranding): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const footerY = doc.internal.pageSize.getHeight() - 25
+  const margin = PAGE_MARGIN
+
+  doc.setDrawColor(...PDF_COLORS.red)
+  doc.setLineWidth(0.5)
+  doc.line(margin, footerY - 5, pageWidth - margin, footerY - 5)
+
+  const { logo } = branding
+  if (logo) {
+    const height = 10
+    doc.addImage(logo.data, logo.format, margin, footerY - 2, (height * logo.width) / logo.height, height)
+  } else {
+    setText(doc, 14, PDF_COLORS.red, 'bold')
+    doc.text(BRANDING.companyName.toUpperCase(), margin, footerY + 4)
+  }
+
+  setText(doc, 9, PDF_COLORS.gray)
+  branding.contactLines.slice(0, 4).forEach((line, i) => {
+    doc.text(line, pageWidth - margin, footerY + i * 4.5, { align: 'right' })
+  })
+}
+
+/**
+ * Draw a unit photo, or a grey placeholder when it couldn't be loaded
+ */
+function drawImage(doc: jsPDF, image: PDFImage | null, x: number, y: number, width: number, height: number): void {
+  if (image) {
+    doc.addImage(image.data, image.format, x, y, width, height)
+    return
+  }
+  doc.setFillColor(...PDF_COLORS.placeholder)
+  doc.rect(x, y, width, height, 'F')
+  setText(doc, Math.min(12, height / 5), [150, 150, 150])
+  doc.text('Image not available', x + width / 2, y + height / 2, { align: 'center' })
+}
+
+function drawTypeBadge(doc: jsPDF, unit: Unit, x: number, y: number, width = 30): void {
+  doc.setFillColor(...PDF_COLORS.red)
+  doc.roundedRect(x, y, width, 8, 2, 2, 'F')
+  setText(doc, 8, [255, 255, 255])
+  doc.text(unit.type.toUpperCase(), x + width / 2, y + 5.5, { align: 'center' })
+}
+
+function weeklyImpressions(unit: Unit): number {
+  return unit.weeklyImpressions || unit.dailyImpressions * 7
+}
+
+function displayAddress(unit: Unit): string {
+  return unit.address !== 'Address TBD' ? unit.address : unit.market
+}
+
+/**
+ * Full-page sell sheet: photo, specs grid and notes, one unit per page
+ */
+const sellSheet: PDFTemplate = {
+  label: 'Sell sheet (1 per page)',
+  usesImages: true,
+  render(doc, items, branding) {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const margin = PAGE_MARGIN
+    const unitPages: number[] = []
+    let y = 0
+
+    items.forEach((item, index) => {
+      if (index > 0) doc.addPage()
+      unitPages.push(doc.getNumberOfPages())
+      const { unit, context, image } = item
+
+      // Proposal details take a fifth row of specs, so the photo gives up some height
+      const hasProposalRow = !!(context.status || context.pricing)
+      const shift = hasProposalRow ? 10 : 0
+
+      drawImage(doc, image, margin, margin, pageWidth - margin * 2, 90 - shift)
+      drawTypeBadge(doc, unit, margin, 110 - shift)
+      if (context.number) {
+        setText(doc, 10, PDF_COLORS.muted, 'bold')
+        doc.text(`No. ${context.number}`, pageWidth - margin, 115.5 - shift, { align: 'right' })
+      }
+
+      setText(doc, 28, PDF_COLORS.dark, 'bold')
+      doc.text(unit.id, margin, 130 - shift)
+
+      setText(doc, 11, PDF_COLORS.gray)
+      doc.text(displayAddress(unit), margin, 138 - shift)
+
+      // Specs grid - 2 columns
+      const specY = 150 - shift
+      const col1X = margin
+      const col2X = pageWidth / 2 + 5
+      const rowHeight = 18
+
+      const drawSpec = (label: string, value: string, x: number, rowY: number) => {
+        doc.setFillColor(...PDF_COLORS.panel)
+        doc.roundedRect(x, rowY, (pageWidth - margin * 2 - 10) / 2, rowHeight - 2, 2, 2, 'F')
+        setText(doc, 8, PDF_COLORS.muted)
+        doc.text(label, x + 4, rowY + 5)
+        setText(doc, 11, PDF_COLORS.dark, 'bold')
+        doc.text(value, x + 4, rowY + 12)
+      }
+
+      drawSpec('Size', unit.size || 'TBD', col1X, specY)
+      drawSpec('Weekly Impressions', weeklyImpressions(unit).toLocaleString(), col2X, specY)
+      drawSpec('Facing', unit.facing || 'TBD', col1X, specY + rowHeight)
+      drawSpec('Illuminated', unit.illuminated ? 'Yes' : 'No', col2X, specY + rowHeight)
+      drawSpec('Latitude', unit.lat.toFixed(6), col1X, specY + rowHeight * 2)
+      drawSpec('Longitude', unit.lng.toFixed(6), col2X, specY + rowHeight * 2)
+
+      const readDirection = unit.streetViewHeading >= 180 ? 'Right-hand' : 'Left-hand'
+      drawSpec('Read', readDirection, col1X, specY + rowHeight * 3)
+      drawSpec('Geopath ID', unit.geopathId || 'TBD', col2X, specY + rowHeight * 3)
+
+      let rows = 4
+      if (hasProposalRow) {
+        const proposalSpecs: [string, string][] = []
+        if (context.status) {
+          proposalSpecs.push(['Flight Status', getStatusDisplay(context.status).label])
+        }
+        if (context.pricing) {
+          proposalSpecs.push(['Media (Flight)', formatCurrency(context.pricing.mediaNet)])
+        }
+        proposalSpecs.forEach(([label, value], i) => {
+          drawSpec(label, value, i === 0 ? col1X : col2X, specY + rowHeight * 4)
+        })
+        rows = 5
+      }
+
+      // Proposal note first, then the unit description
+      y = specY + rowHeight * rows + 10
+      const notes = [context.notes, unit.notes].filter(Boolean).join('\n')
+      if (notes) {
+        setText(doc, 10, PDF_COLORS.gray)
+        const lines = doc.splitTextToSize(notes, pageWidth - margin * 2)
+        const shown = lines.slice(0, hasProposalRow ? 2 : 4)
+        doc.text(shown, margin, y)
+        y += shown.length * 5
+      }
+
+      drawFooter(doc, branding)
+    })
+
+    return { endY: y, unitPages }
+  },
+}
+
+/**
+ * Contact sheet with a grid of unit cards per page
+ */
+function contactSheet(label: string, columns: number, rows: number): PDFTemplate {
+  return {
+    label,
+    usesImages: true,
+    render(doc, items, branding, title) {
+      const pageWidth = doc.internal.pageSize.getWidth()
+      const margin = PAGE_MARGIN
+      const gap = 8
+      const top = title ? 30 : margin
+      const perPage = columns * rows
+      const cardWidth = (pageWidth - margin * 2 - gap * (columns - 1)) / columns
+      const cardHeight = (contentBottom(doc) - top - gap * (rows - 1)) / rows
+      const imageHeight = cardHeight * 0.6
+      const unitPages: number[] = []
+      let y = top
+
+      items.forEach((item, index) => {
+        const slot = index % perPage
+        if (slot === 0) {
+          if (index > 0) doc.addPage()
+          if (title) {
+            setText(doc, 20, PDF_COLORS.dark, 'bold')
+            doc.text(title, margin, 22)
+          }
+          drawFooter(doc, branding)
+        }
+        unitPages.push(doc.getNumberOfPages())
+
+        const { unit, context, image } = item
+        const x = margin + (slot % columns) * (cardWidth + gap)
+        const cardY = top + Math.floor(slot / columns) * (cardHeight + gap)
+
+        drawImage(doc, image, x, cardY, cardWidth, imageHeight)
+
+        let textY = cardY + imageHeight + 7
+        setText(doc, columns > 1 ? 12 : 16, PDF_COLORS.dark, 'bold')
+        doc.text(context.number ? `${context.number}. ${unit.id}` : unit.id, x, textY)
+        if (context.status) {
+          const status = getStatusDisplay(context.status)
+          setText(doc, 8, PDF_COLORS.muted, 'bold')
+          doc.text(status.label.toUpperCase(), x + cardWidth, textY, { align: 'right' })
+        }
+
+        textY += 5
+        setText(doc, 9, PDF_COLORS.gray)
+        doc.text(doc.splitTextToSize(displayAddress(unit), cardWidth)[0], x, textY)
+
+        textY += 5
+        const specs = [
+          unit.size || 'Size TBD',
+          unit.facing ? `${unit.facing} facing` : null,
+          `${weeklyImpressions(unit).toLocaleString()} weekly imps`,
+          context.pricing ? `${formatCurrency(context.pricing.mediaNet)} media` : null,
+        ].filter(Boolean).join(' · ')
+        setText(doc, 8, PDF_COLORS.muted)
+        const specLines = doc.splitTextToSize(specs, cardWidth)
+        doc.text(specLines.slice(0, 2), x, textY)
+
+        if (context.notes) {
+          setText(doc, 8, PDF_COLORS.gray, 'italic')
+          doc.text(doc.splitTextToSize(context.notes, cardWidth)[0], x, textY + specLines.slice(0, 2).length * 4)
+        }
+
+        y = cardY + cardHeight
+      })
+
+      return { endY: y, unitPages }
+    },
+  }
+}
+
+/**
+ * One row per unit, continuing onto new pages as needed
+ */
+const table: PDFTemplate = {
+  label: 'Table',
+  usesImages: false,
+  render(doc, items, branding, title) {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const margin = PAGE_MARGIN
+    const rowHeight = 7
+    const showNumber = items.some(item => item.context.number)
+    // Proposals (numbered rows) always list status, even where it's unknown
+    const showStatus = showNumber || items.some(item => item.context.status)
+    const showMedia = items.some(item => item.context.pricing)
+
+    type Column = { label: string; width: number; align: 'left' | 'right'; value: (item: TemplateItem) => string }
+    const columns: Column[] = []
+    if (showNumber) {
+      columns.push({ label: '#', width: 8, align: 'left', value: ({ context }) => String(context.number ?? '') })
+    }
+    columns.push(
+      { label: 'Unit', width: 26, align: 'left', value: ({ unit }) => unit.id },
+      { label: 'Market', width: 34, align: 'left', value: ({ unit }) => unit.market },
+      { label: 'Size', width: 26, align: 'left', value: ({ unit }) => unit.size || 'TBD' },
+      { label: 'Facing', width: 22, align: 'left', value: ({ unit }) => unit.facing || 'TBD' },
+      { label: 'Weekly Imps', width: 28, align: 'right', value: ({ unit }) => weeklyImpressions(unit).toLocaleString() },
+    )
+    if (showStatus) {
+      columns.push({
+        label: 'Status',
+        width: 24,
+        align: 'right',
+        value: ({ context }) => (context.status ? getStatusDisplay(context.status).label : '-'),
+      })
+    }
+    if (showMedia) {
+      columns.push({
+        label: 'Media',
+        width: 26,
+        align: 'right',
+        value: ({ context }) => (context.pricing ? formatCurrency(context.pricing.mediaNet) : '-'),
+      })
+    }
+
+    // Spread the columns across the page, right-aligned ones anchored at their right edge
+    const scale = (pageWidth - margin * 2) / columns.reduce((sum, col) => sum + col.width, 0)
+    let left = margin
+    const positions = columns.map(col => {
+      const width = col.width * scale
+      const x = col.align === 'right' ? left + width - 2 : left
+      left += width
+      return { x, maxWidth: width - 3 }
+    })
+
+    const startPage = (top: number) => {
+      setText(doc, 8, PDF_COLORS.muted, 'bold')
+      columns.forEach((col, i) => doc.text(col.label.toUpperCase(), positions[i].x, top, { align: col.align }))
+      doc.setDrawColor(...PDF_COLORS.red)
+      doc.setLineWidth(0.4)
+      doc.line(margin, top + 2, pageWidth - margin, top + 2)
+      drawFooter(doc, branding)
+      return top
+    }
+
+    let y = 20
+    if (title) {
+      setText(doc, 20, PDF_COLORS.dark, 'bold')
+      doc.text(title, margin, 25)
+      y = 38
+    }
+    y = startPage(y)
+    const unitPages: number[] = []
+
+    items.forEach(item => {
+      if (y + rowHeight > contentBottom(doc)) {
+        doc.addPage()
+        y = startPage(20)
+      }
+      unitPages.push(doc.getNumberOfPages())
+      y += rowHeight
+      setText(doc, 9, PDF_COLORS.dark)
+      columns.forEach((col, i) => {
+        const text = doc.splitTextToSize(col.value(item), positions[i].maxWidth)[0]
+        doc.text(text, positions[i].x, y, { align: col.align })
+      })
+      doc.setDrawColor(...PDF_COLORS.rule)
+      doc.setLineWidth(0.2)
+      doc.line(margin, y + 2, pageWidth - margin, y + 2)
+    })
+
+    return { endY: y + 2, unitPages }
+  },
+}
+
+// Web Mercator y for a latitude, so maps keep the shape people expect
+function mercatorY(lat: number): number {
+  const rad = (lat * Math.PI) / 180
+  return Math.log(Math.tan(Math.PI / 4 + rad / 2))
+}
+
+// Round scale bar lengths to pick from, in miles
+const SCALE_BAR_MILES = [0.1, 0.25, 0.5, 1, 2, 5, 10, 25, 50, 100, 250]
+const MIN_MAP_SPAN = 0.01 // Degrees, so a lone unit isn't drawn at street level
+const KM_PER_DEGREE = 111.32
+const KM_PER_MILE = 1.609344
+
+/**
+ * Plot a set of units on a plain map frame
+ * A key too long for the page continues on new pages
+ */
+function drawUnitMap(doc: jsPDF, items: TemplateItem[], branding: PageBranding, top: number): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = PAGE_MARGIN
+
+  // Key under the map: number and ID, three to a row
+  const keyColumns = 3
+  const keyRows = Math.ceil(items.length / keyColumns)
+  const keyHeight = keyRows * 5 + 6
+
+  const box = {
+    x: margin,
+    y: top,
+    width: pageWidth - margin * 2,
+    height: Math.max(90, contentBottom(doc) - top - keyHeight - 4),
+  }
+
+  // Projected bounds with a margin so pins don't sit on the frame
+  const lngs = items.map(i => i.unit.lng)
+  const ys = items.map(i => mercatorY(i.unit.lat))
+  const centerLat = items.reduce((sum, i) => sum + i.unit.lat, 0) / items.length
+  const minSpan = mercatorY(centerLat + MIN_MAP_SPAN / 2) - mercatorY(centerLat - MIN_MAP_SPAN / 2)
+  const spanX = Math.max(Math.max(...lngs) - Math.min(...lngs), MIN_MAP_SPAN) * 1.2
+  const spanY = Math.max(Math.max(...ys) - Math.min(...ys), minSpan) * 1.2
+  const midX = (Math.max(...lngs) + Math.min(...lngs)) / 2
+  const midY = (Math.max(...ys) + Math.min(...ys)) / 2
+
+  // Longitude degrees and Mercator units share a scale, so one factor keeps the aspect right
+  const scale = Math.min(box.width / ((spanX * Math.PI) / 180), box.height / spanY)
+  const project = (lat: number, lng: number) => ({
+    x: box.x + box.width / 2 + (((lng - midX) * Math.PI) / 180) * scale,
+    y: box.y + box.height / 2 - (mercatorY(lat) - midY) * scale,
+  })
+
+  doc.setFillColor(...PDF_COLORS.panel)
+  doc.setDrawColor(...PDF_COLORS.rule)
+  doc.setLineWidth(0.2)
+  doc.rect(box.x, box.y, box.width, box.height, 'FD')
+  for (let i = 1; i < 6; i++) {
+    doc.line(box.x + (box.width * i) / 6, box.y, box.x + (box.width * i) / 6, box.y + box.height)
+    doc.line(box.x, box.y + (box.height * i) / 6, box.x + box.width, box.y + (box.height * i) / 6)
+  }
+
+  // Scale bar: the largest round distance that fits in a quarter of the frame
+  const mmPerMile = (scale * Math.PI * KM_PER_MILE) / (180 * KM_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180))
+  const miles = SCALE_BAR_MILES.filter(m => m * mmPerMile <= box.width / 4).pop() || SCALE_BAR_MILES[0]
+  const barX = box.x + 5
+  const barY = box.y + box.height - 6
+  doc.setDrawColor(...PDF_COLORS.gray)
+  doc.setLineWidth(0.6)
+  doc.line(barX, barY, barX + miles * mmPerMile, barY)
+  setText(doc, 7, PDF_COLORS.gray)
+  doc.text(`${miles} mi`, barX, barY - 1.5)
+  doc.text('N', box.x + box.width - 6, box.y + 7, { align: 'center' })
+
+  // Pins, drawn last so none is hidden under the grid
+  items.forEach(item => {
+    const point = project(item.unit.lat, item.unit.lng)
+    doc.setFillColor(...PDF_COLORS.red)
+    doc.setDrawColor(255, 255, 255)
+    doc.setLineWidth(0.4)
+    doc.circle(point.x, point.y, 3.2, 'FD')
+    setText(doc, 7, [255, 255, 255], 'bold')
+    doc.text(String(item.context.number ?? ''), point.x, point.y + 1.1, { align: 'center' })
+  })
+
+  let keyY = box.y + box.height + 8
+  const keyWidth = box.width / keyColumns
+  items.forEach((item, i) => {
+    const x = box.x + (i % keyColumns) * keyWidth
+    if (i > 0 && i % keyColumns === 0) {
+      keyY += 5
+      if (keyY > contentBottom(doc)) {
+        doc.addPage()
+        drawFooter(doc, branding)
+        keyY = 20
+      }
+    }
+    setText(doc, 8, PDF_COLORS.red, 'bold')
+    doc.text(String(item.context.number ?? ''), x, keyY)
+    setText(doc, 8, PDF_COLORS.dark)
+    doc.text(doc.splitTextToSize(item.unit.id, keyWidth - 10)[0], x + 7, keyY)
+  })
+}
+
+/**
+ * One map page per market with numbered pins at each unit's coordinates
+ * Pins use context.number, so they match the summary table
+ */
+const map: PDFTemplate = {
+  label: 'Map',
+  usesImages: false,
+  render(doc, items, branding, title) {
+    const margin = PAGE_MARGIN
+    const unitPages: number[] = []
+    let endY = 0
+
+    const markets = new Map<string, TemplateItem[]>()
+    items.forEach(item => {
+      markets.set(item.unit.market, [...(markets.get(item.unit.market) || []), item])
+    })
+
+    Array.from(markets.entries()).forEach(([market, marketItems], index) => {
+      if (index > 0) doc.addPage()
+      setText(doc, 20, PDF_COLORS.dark, 'bold')
+      doc.text(title ? `${title}: ${market}` : market, margin, 25)
+      setText(doc, 10, PDF_COLORS.muted)
+      doc.text(`${marketItems.length} unit${marketItems.length !== 1 ? 's' : ''}`, margin, 31)
+
+      // Pins are on the map page, even when the key runs onto later pages
+      const mapPage = doc.getNumberOfPages()
+      drawFooter(doc, branding)
+      drawUnitMap(doc, marketItems, branding, 36)
+      marketItems.forEach(() => unitPages.push(mapPage))
+      endY = contentBottom(doc)
+    })
+
+    // Report pages in item order, not market order
+    const order = Array.from(markets.values()).flat()
+    return { endY, unitPages: items.map(item => unitPages[order.indexOf(item)]) }
+  },
+}
+
+export const PDF_TEMPLATES: Record<TemplateName, PDFTemplate> = {
+  'sell-sheet': sellSheet,
+  'contact-2up': contactSheet('Contact sheet (2 per page)', 1, 2),
+  'contact-4up': contactSheet('Contact sheet (4 per page)', 2, 2),
+  table,
+  map,
+}
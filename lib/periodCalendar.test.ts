@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { PeriodCalendar } from './types'
+import {
+  getCalendarFor,
+  getNextPeriod,
+  getPeriodContaining,
+  getPeriodsForYear,
+  getPeriodsInRange,
+  getPeriodStartingFrom,
+  snapToPeriods,
+} from './periodCalendar'
+
+// Monday weeks with no anchors, so year starts come from the weekday rule
+const MONDAY_CALENDAR: PeriodCalendar = {
+  cycleDays: 28,
+  prefix: 'P',
+  weekStartsOn: 1,
+  yearAnchors: {},
+}
+
+describe('getPeriodsForYear', () => {
+  it('splits a 52-week year into thirteen 4-week periods from its anchor', () => {
+    const periods = getPeriodsForYear(2026)
+    expect(periods).toHaveLength(13)
+    expect(periods[0]).toEqual({
+      startDate: '2025-12-29',
+      endDate: '2026-01-25',
+      year: 2026,
+      number: 1,
+      label: 'P01 2026',
+    })
+    expect(periods[12].startDate).toBe('2026-11-30')
+    expect(periods[12].endDate).toBe('2026-12-27')
+  })
+
+  it('gives the extra week of a 53-week year to the last period', () => {
+    // 2017 starts on Monday 2016-12-26 and 2018 on Monday 2018-01-01
+    const periods = getPeriodsForYear(2017, MONDAY_CALENDAR)
+    expect(periods).toHaveLength(13)
+    expect(periods[0].startDate).toBe('2016-12-26')
+    expect(periods[11].endDate).toBe('2017-11-26')
+    expect(periods[12].startDate).toBe('2017-11-27')
+    expect(periods[12].endDate).toBe('2017-12-31')
+  })
+
+  it('labels periods with the calendar prefix', () => {
+    const periods = getPeriodsForYear(2026, { ...MONDAY_CALENDAR, prefix: 'C' })
+    expect(periods[6].label).toBe('C07 2026')
+  })
+})
+
+describe('period lookups', () => {
+  it('finds the period containing a date, across sales-year boundaries', () => {
+    expect(getPeriodContaining('2026-01-25').label).toBe('P01 2026')
+    expect(getPeriodContaining('2026-01-26').label).toBe('P02 2026')
+    // Before January 1, but already in the 2026 sales year
+    expect(getPeriodContaining('2025-12-30').label).toBe('P01 2026')
+    expect(getPeriodContaining('2017-12-31', MONDAY_CALENDAR).label).toBe('P13 2017')
+    expect(getPeriodContaining('2018-01-01', MONDAY_CALENDAR).label).toBe('P01 2018')
+  })
+
+  it('finds the first period starting on or after a date', () => {
+    expect(getPeriodStartingFrom('2026-01-26').label).toBe('P02 2026')
+    expect(getPeriodStartingFrom('2026-01-27').label).toBe('P03 2026')
+    expect(getPeriodStartingFrom('2026-12-01').label).toBe('P01 2027')
+  })
+
+  it('steps from the last period of a year to the first of the next', () => {
+    const last = getPeriodsForYear(2017, MONDAY_CALENDAR)[12]
+    expect(getNextPeriod(last, MONDAY_CALENDAR)).toMatchObject({ startDate: '2018-01-01', label: 'P01 2018' })
+  })
+
+  it('lists every period overlapping a range', () => {
+    expect(getPeriodsInRange('2026-01-20', '2026-03-01').map(p => p.label)).toEqual([
+      'P01 2026',
+      'P02 2026',
+      'P03 2026',
+    ])
+  })
+})
+
+describe('snapToPeriods', () => {
+  it('widens a range to period boundaries', () => {
+    expect(snapToPeriods({ startDate: '2026-01-20', endDate: '2026-02-10' })).toEqual({
+      startDate: '2025-12-29',
+      endDate: '2026-02-22',
+    })
+  })
+
+  it('leaves a range already on boundaries unchanged', () => {
+    const range = { startDate: '2026-01-26', endDate: '2026-03-22' }
+    expect(snapToPeriods(range)).toEqual(range)
+  })
+
+  it('snaps into the long last period of a 53-week year', () => {
+    expect(snapToPeriods({ startDate: '2017-12-30', endDate: '2018-01-02' }, MONDAY_CALENDAR)).toEqual({
+      startDate: '2017-11-27',
+      endDate: '2018-01-28',
+    })
+  })
+})
+
+describe('getCalendarFor', () => {
+  it('sells digital weekly in the markets configured for it', () => {
+    const calendar = getCalendarFor({ market: 'Washington DC', type: 'digital' })
+    expect(calendar.cycleDays).toBe(7)
+    expect(getPeriodContaining('2026-02-04', calendar)).toEqual({
+      startDate: '2026-02-02',
+      endDate: '2026-02-08',
+      year: 2026,
+      number: 6,
+      label: 'W06 2026',
+    })
+  })
+
+  it('keeps other formats and markets on the 4-week calendar', () => {
+    expect(getCalendarFor({ market: 'Washington DC', type: 'billboard' }).cycleDays).toBe(28)
+    expect(getCalendarFor({ market: 'Denver', type: 'digital' }).cycleDays).toBe(28)
+  })
+})
@@ -0,0 +1,149 @@
+import { DateRange, PeriodCalendar, PeriodCalendarOverride, SalesPeriod, Unit } from './types'
+import { addDays, dayOfWeek, daysBetween } from './dates'
+import calendarData from '@/data/periodCalendar.json'
+
+export const DEFAULT_CALENDAR: PeriodCalendar = calendarData.default
+const OVERRIDES: PeriodCalendarOverride[] = calendarData.overrides as PeriodCalendarOverride[]
+
+/**
+ * Get the sales calendar that applies to a unit, market or format
+ * The override matching the most fields wins; unmatched inventory uses the default
+ */
+export function getCalendarFor(target?: { market?: string; type?: Unit['type'] | string }): PeriodCalendar {
+  if (!target) return DEFAULT_CALENDAR
+
+  let best: PeriodCalendarOverride | null = null
+  let bestScore = 0
+
+  for (const override of OVERRIDES) {
+    if (override.market && override.market !== target.market) continue
+    if (override.type && override.type !== target.type) continue
+
+    const score = (override.market ? 1 : 0) + (override.type ? 1 : 0)
+    if (score > bestScore) {
+      best = override
+      bestScore = score
+    }
+  }
+
+  if (!best) return DEFAULT_CALENDAR
+
+  return {
+    cycleDays: best.cycleDays ?? DEFAULT_CALENDAR.cycleDays,
+    prefix: best.prefix ?? DEFAULT_CALENDAR.prefix,
+    weekStartsOn: best.weekStartsOn ?? DEFAULT_CALENDAR.weekStartsOn,
+    yearAnchors: { ...DEFAULT_CALENDAR.yearAnchors, ...best.yearAnchors },
+  }
+}
+
+/**
+ * First day of a sales year
+ * Uses the configured anchor, else the week-start day on or before January 1
+ */
+function getYearStart(year: number, calendar: PeriodCalendar): string {
+  const configured = calendar.yearAnchors[String(year)]
+  if (configured) return configured
+
+  const january1 = `${year}-01-01`
+  const offset = (dayOfWeek(january1) - calendar.weekStartsOn + 7) % 7
+  return addDays(january1, -offset)
+}
+
+/**
+ * Sales year a date falls in
+ */
+function getSalesYear(date: string, calendar: PeriodCalendar): number {
+  const year = Number(date.slice(0, 4))
+  if (date < getYearStart(year, calendar)) return year - 1
+  if (date >= getYearStart(year + 1, calendar)) return year + 1
+  return year
+}
+
+/**
+ * Format a period label, e.g. "P07 2026"
+ */
+export function formatPeriodLabel(year: number, number: number, calendar: PeriodCalendar = DEFAULT_CALENDAR): string {
+  return `${calendar.prefix}${String(number).padStart(2, '0')} ${year}`
+}
+
+/**
+ * All periods of a sales year
+ * Days left over at the end of the year (a 53rd week) go to the last period
+ */
+export function getPeriodsForYear(year: number, calendar: PeriodCalendar = DEFAULT_CALENDAR): SalesPeriod[] {
+  const start = getYearStart(year, calendar)
+  const nextStart = getYearStart(year + 1, calendar)
+  const count = Math.max(1, Math.floor(daysBetween(start, nextStart) / calendar.cycleDays))
+
+  const periods: SalesPeriod[] = []
+  for (let i = 0; i < count; i++) {
+    const startDate = addDays(start, i * calendar.cycleDays)
+    const endDate = i === count - 1
+      ? addDays(nextStart, -1)
+      : addDays(startDate, calendar.cycleDays - 1)
+
+    periods.push({
+      startDate,
+      endDate,
+      year,
+      number: i + 1,
+      label: formatPeriodLabel(year, i + 1, calendar),
+    })
+  }
+
+  return periods
+}
+
+/**
+ * The sales period containing a date
+ */
+export function getPeriodContaining(date: string, calendar: PeriodCalendar = DEFAULT_CALENDAR): SalesPeriod {
+  const periods = getPeriodsForYear(getSalesYear(date, calendar), calendar)
+  return periods.find(p => date >= p.startDate && date <= p.endDate) || periods[periods.length - 1]
+}
+
+/**
+ * The first sales period starting on or after a date
+ */
+export function getPeriodStartingFrom(date: string, calendar: PeriodCalendar = DEFAULT_CALENDAR): SalesPeriod {
+  const containing = getPeriodContaining(date, calendar)
+  return containing.startDate === date
+    ? containing
+    : getPeriodContaining(addDays(containing.endDate, 1), calendar)
+}
+
+/**
+ * The sales period following another
+ */
+export function getNextPeriod(period: SalesPeriod, calendar: PeriodCalendar = DEFAULT_CALENDAR): SalesPeriod {
+  return getPeriodContaining(addDays(period.endDate, 1), calendar)
+}
+
+/**
+ * All sales periods overlapping a date range, in order
+ */
+export function getPeriodsInRange(
+  startDate: string,
+  endDate: string,
+  calendar: PeriodCalendar = DEFAULT_CALENDAR
+): SalesPeriod[] {
+  const periods: SalesPeriod[] = []
+  for (
+    let period = getPeriodContaining(startDate, calendar);
+    period.startDate <= endDate;
+    period = getNextPeriod(period, calendar)
+  ) {
+    periods.push(period)
+  }
+  return periods
+}
+
+/**
+ * Widen a date range so it starts and ends on period boundaries
+ */
+export function snapToPeriods(range: DateRange, calendar: PeriodCalendar = DEFAULT_CALENDAR): DateRange {
+  return {
+    startDate: getPeriodContaining(range.startDate, calendar).startDate,
+    endDate: getPeriodContaining(range.endDate, calendar).endDate,
+  }
+}
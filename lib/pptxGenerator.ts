@@ -0,0 +1,302 @@
+import PptxGenJS from 'pptxgenjs'
+import { Unit } from './types'
+import { BRANDING } from './branding'
+import { formatDateRange, getStatusDisplay } from './availability'
+import { formatCurrency } from './pricing'
+import { formatPeople } from './reach'
+import { loadPageBranding, loadUnitImages, PDFImage } from './images'
+import type { ProposalPDFDetails } from './pdfGenerator'
+
+/**
+ * Proposal decks for PowerPoint
+ *
+ * Same proposal details as the PDF, laid out as a 16:9 deck: a title slide,
+ * a market summary and one slide per unit. Photos and the logo are loaded
+ * with lib/images.ts, shared with the PDF, and embedded so the file works offline.
+ */
+
+const SLIDE_WIDTH = 10 // Inches, LAYOUT_16x9
+const SLIDE_HEIGHT = 5.625
+const MARGIN = 0.4
+const MASTER = 'BRANDED'
+
+// pptxgenjs colors are hex without the '#'
+const COLORS = {
+  red: BRANDING.colors.primary.replace('#', ''),
+  dark: BRANDING.colors.dark.replace('#', ''),
+  gray: BRANDING.colors.gray.replace('#', ''),
+  muted: '787878',
+  panel: 'F8F8F8',
+  rule: 'DCDCDC',
+}
+
+const FONT = BRANDING.fonts.web
+
+function weeklyImpressions(unit: Unit): number {
+  return unit.weeklyImpressions || unit.dailyImpressions * 7
+}
+
+function displayAddress(unit: Unit): string {
+  return unit.address !== 'Address TBD' ? unit.address : unit.market
+}
+
+/**
+ * Logo (or company name) and contact details along the bottom of every slide
+ */
+function defineMaster(pptx: PptxGenJS, logo: PDFImage | null, contactLines: string[]): void {
+  const footerY = SLIDE_HEIGHT - 0.55
+  const logoHeight = 0.3
+
+  pptx.defineSlideMaster({
+    title: MASTER,
+    background: { color: 'FFFFFF' },
+    objects: [
+      { line: { x: MARGIN, y: footerY - 0.1, w: SLIDE_WIDTH - MARGIN * 2, h: 0, line: { color: COLORS.red, width: 1 } } },
+      logo
+        ? { image: { x: MARGIN, y: footerY, w: (logoHeight * logo.width) / logo.height, h: logoHeight, data: logo.data } }
+        : {
+            text: {
+              text: BRANDING.companyName.toUpperCase(),
+              options: { x: MARGIN, y: footerY, w: 3, h: logoHeight, fontFace: FONT, fontSize: 12, bold: true, color: COLORS.red, margin: 0 },
+            },
+          },
+      {
+        text: {
+          text: contactLines.join('  ·  '),
+          options: {
+            x: SLIDE_WIDTH / 2 - MARGIN,
+            y: footerY,
+            w: SLIDE_WIDTH / 2,
+            h: logoHeight,
+            fontFace: FONT,
+            fontSize: 8,
+            color: COLORS.gray,
+            align: 'right',
+            margin: 0,
+          },
+        },
+      },
+    ],
+  })
+}
+
+function addTitleSlide(pptx: PptxGenJS, units: Unit[], details: ProposalPDFDetails, logo: PDFImage | null): void {
+  const slide = pptx.addSlide()
+  const width = SLIDE_WIDTH - MARGIN * 2
+
+  // Red band across the top
+  slide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: SLIDE_WIDTH, h: 1.6, fill: { color: COLORS.red }, line: { color: COLORS.red } })
+  if (logo) {
+    const height = 0.7
+    slide.addImage({ data: logo.data, x: MARGIN, y: 0.45, w: (height * logo.width) / logo.height, h: height })
+  } else {
+    slide.addText(BRANDING.companyName.toUpperCase(), {
+      x: MARGIN, y: 0.45, w: width, h: 0.7, fontFace: FONT, fontSize: 28, bold: true, color: 'FFFFFF', margin: 0,
+    })
+  }
+
+  slide.addText('PROPOSAL', { x: MARGIN, y: 2.0, w: width, h: 0.3, fontFace: FONT, fontSize: 12, color: COLORS.muted, margin: 0 })
+  slide.addText(details.advertiser || details.title || 'Out-of-Home Proposal', {
+    x: MARGIN, y: 2.3, w: width, h: 0.7, fontFace: FONT, fontSize: 28, bold: true, color: COLORS.dark, margin: 0, fit: 'shrink',
+  })
+
+  const markets = Array.from(new Set(units.map(u => u.market)))
+  const lines = [
+    details.advertiser && details.title ? details.title : '',
+    details.flight ? `Flight: ${formatDateRange(details.flight.startDate, details.flight.endDate)}` : '',
+    `${units.length} unit${units.length !== 1 ? 's' : ''} in ${markets.join(', ')}`,
+  ].filter(Boolean)
+  slide.addText(lines.join('\n'), {
+    x: MARGIN, y: 3.05, w: width, h: 0.9, fontFace: FONT, fontSize: 13, color: COLORS.gray, valign: 'top', margin: 0,
+  })
+
+  if (details.rep) {
+    const { name, phone, email } = details.rep
+    slide.addText(
+      [
+        { text: 'PREPARED BY', options: { fontSize: 9, color: COLORS.muted, breakLine: true } },
+        { text: name, options: { fontSize: 13, bold: true, color: COLORS.dark, breakLine: true } },
+        { text: [phone, email].filter(Boolean).join('  ·  '), options: { fontSize: 10, color: COLORS.gray } },
+      ],
+      { x: MARGIN, y: 4.2, w: width / 2, h: 0.8, fontFace: FONT, valign: 'bottom', margin: 0 }
+    )
+  }
+
+  const prepared = `Prepared ${new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`
+  slide.addText(prepared, { x: MARGIN, y: 5.1, w: width / 2, h: 0.25, fontFace: FONT, fontSize: 9, color: COLORS.muted, margin: 0 })
+  slide.addText(BRANDING.website, {
+    x: SLIDE_WIDTH / 2, y: 5.1, w: width / 2, h: 0.25, fontFace: FONT, fontSize: 9, color: COLORS.muted, align: 'right', margin: 0,
+  })
+}
+
+/**
+ * Units, impressions, media and reach per market, with proposal totals
+ */
+function addMarketSummarySlide(pptx: PptxGenJS, units: Unit[], details: ProposalPDFDetails): void {
+  const slide = pptx.addSlide({ masterName: MASTER })
+  slide.addText('Market Summary', {
+    x: MARGIN, y: 0.3, w: SLIDE_WIDTH - MARGIN * 2, h: 0.5, fontFace: FONT, fontSize: 22, bold: true, color: COLORS.dark, margin: 0,
+  })
+
+  const pricing = details.pricing && details.pricing.lines.length > 0 ? details.pricing : null
+  const mediaById = new Map(pricing?.lines.map(line => [line.unitId, line.mediaNet]))
+  const reachByMarket = new Map(details.reach?.markets.map(m => [m.market, m]))
+
+  const markets = new Map<string, Unit[]>()
+  units.forEach(unit => markets.set(unit.market, [...(markets.get(unit.market) || []), unit]))
+
+  const header = ['Market', 'Units', 'Weekly Imps', ...(pricing ? ['Media Net'] : []), 'Reach', 'Frequency']
+  const rows: PptxGenJS.TableRow[] = [
+    header.map((text, i) => ({ text, options: { bold: true, color: COLORS.muted, align: i === 0 ? 'left' : 'right' } })),
+  ]
+  Array.from(markets.entries()).forEach(([market, marketUnits]) => {
+    const reach = reachByMarket.get(market)
+    const media = marketUnits.reduce((sum, u) => sum + (mediaById.get(u.id) || 0), 0)
+    const values = [
+      market,
+      marketUnits.length.toString(),
+      marketUnits.reduce((sum, u) => sum + weeklyImpressions(u), 0).toLocaleString(),
+      ...(pricing ? [media > 0 ? formatCurrency(media) : '-'] : []),
+      reach ? `${reach.reachPercent.toFixed(1)}% (${formatPeople(reach.reach)})` : '-',
+      reach ? reach.frequency.toFixed(1) : '-',
+    ]
+    rows.push(values.map((text, i) => ({ text, options: { align: i === 0 ? 'left' : 'right' } })))
+  })
+
+  // Proposal totals between the title and the table
+  const totals = [`Weekly Impressions ${units.reduce((sum, u) => sum + weeklyImpressions(u), 0).toLocaleString()}`]
+  if (pricing) {
+    totals.push(`Gross ${formatCurrency(pricing.gross)}`)
+    totals.push(
+      pricing.discountPercent > 0
+        ? `Net ${formatCurrency(pricing.net)} (${pricing.discountPercent}% media discount)`
+        : `Net ${formatCurrency(pricing.net)}`
+    )
+    if (pricing.cpm !== null) {
+      totals.push(`CPM ${formatCurrency(pricing.cpm, true)}`)
+    }
+  }
+  if (details.reach && details.reach.markets.length > 0) {
+    totals.push(`Reach ${details.reach.reachPercent.toFixed(1)}% · Frequency ${details.reach.frequency.toFixed(1)}`)
+  }
+  slide.addText(totals.join('     '), {
+    x: MARGIN, y: 0.8, w: SLIDE_WIDTH - MARGIN * 2, h: 0.35, fontFace: FONT, fontSize: 10, bold: true, color: COLORS.dark, margin: 0,
+  })
+
+  slide.addTable(rows, {
+    x: MARGIN,
+    y: 1.3,
+    w: SLIDE_WIDTH - MARGIN * 2,
+    fontFace: FONT,
+    fontSize: 10,
+    color: COLORS.dark,
+    border: { type: 'solid', pt: 0.5, color: COLORS.rule },
+    autoPage: true,
+    autoPageRepeatHeader: true,
+    newSlideStartY: 0.5,
+  })
+}
+
+/**
+ * Photo on the left, the info window's specs and notes on the right
+ */
+function addUnitSlide(
+  pptx: PptxGenJS,
+  unit: Unit,
+  number: number,
+  details: ProposalPDFDetails,
+  image: PDFImage | null
+): void {
+  const slide = pptx.addSlide({ masterName: MASTER })
+  const photo = { x: MARGIN, y: 0.4, w: 5.4, h: 4.3 }
+
+  if (image) {
+    // Scale to the photo's width at its own aspect, then crop to fill the frame
+    const height = (photo.w * image.height) / image.width
+    slide.addImage({
+      data: image.data,
+      x: photo.x,
+      y: photo.y,
+      w: photo.w,
+      h: height,
+      sizing: { type: 'cover', w: photo.w, h: photo.h },
+      altText: unit.name,
+    })
+  } else {
+    slide.addShape(pptx.ShapeType.rect, { ...photo, fill: { color: 'F0F0F0' }, line: { color: 'F0F0F0' } })
+    slide.addText('Image not available', { ...photo, fontFace: FONT, fontSize: 12, color: '969696', align: 'center' })
+  }
+
+  const x = photo.x + photo.w + 0.3
+  const width = SLIDE_WIDTH - MARGIN - x
+
+  slide.addText(`${number}. ${unit.type.toUpperCase()}`, {
+    x, y: 0.4, w: width, h: 0.25, fontFace: FONT, fontSize: 9, bold: true, color: COLORS.red, margin: 0,
+  })
+  slide.addText(unit.name, {
+    x, y: 0.65, w: width, h: 0.55, fontFace: FONT, fontSize: 16, bold: true, color: COLORS.dark, valign: 'top', margin: 0, fit: 'shrink',
+  })
+  slide.addText(displayAddress(unit), {
+    x, y: 1.2, w: width, h: 0.3, fontFace: FONT, fontSize: 10, color: COLORS.gray, margin: 0,
+  })
+
+  const status = details.unitStatuses?.[unit.id]
+  const specs: [string, string][] = [
+    ['Size', unit.size || 'TBD'],
+    ['Facing', unit.facing || 'TBD'],
+    ['Weekly Impressions', weeklyImpressions(unit).toLocaleString()],
+    ['Features', `${unit.illuminated ? 'Illuminated' : 'Standard'}${unit.digital ? ', Digital' : ''}`],
+  ]
+  if (status) {
+    specs.push(['Availability', getStatusDisplay(status).label])
+  }
+  if (unit.geopathId && unit.geopathId !== 'TBD') {
+    specs.push(['Geopath ID', unit.geopathId])
+  }
+
+  slide.addTable(
+    specs.map(([label, value]) => [
+      { text: label, options: { color: COLORS.muted, fontSize: 9 } },
+      { text: value, options: { bold: true, color: COLORS.dark, fontSize: 10 } },
+    ]),
+    { x, y: 1.6, w: width, colW: [width * 0.45, width * 0.55], fontFace: FONT, fill: { color: COLORS.panel }, border: { type: 'none' } }
+  )
+
+  // Proposal note first, then the unit description
+  const notes = [details.unitNotes?.[unit.id], unit.notes].filter(Boolean).join('\n')
+  if (notes) {
+    slide.addText(notes, {
+      x, y: 1.7 + specs.length * 0.3, w: width, h: 4.7 - (1.7 + specs.length * 0.3), fontFace: FONT, fontSize: 9,
+      italic: true, color: COLORS.gray, valign: 'top', margin: 0, fit: 'shrink',
+    })
+  }
+}
+
+/**
+ * Build a proposal deck: title, market summary, then one slide per unit in
+ * proposal order, numbered to match the PDF
+ */
+export async function generateProposalPPTX(units: Unit[], details: ProposalPDFDetails): Promise<PptxGenJS> {
+  if (units.length === 0) {
+    throw new Error('No units provided')
+  }
+
+  const images = await loadUnitImages(units)
+  const { logo, contactLines } = await loadPageBranding(details.rep)
+
+  const pptx = new PptxGenJS()
+  pptx.layout = 'LAYOUT_16x9'
+  pptx.company = BRANDING.companyName
+  pptx.author = details.rep?.name || BRANDING.companyName
+  pptx.title = details.title || 'Proposal'
+  defineMaster(pptx, logo, contactLines)
+
+  addTitleSlide(pptx, units, details, logo)
+  addMarketSummarySlide(pptx, units, details)
+  units.forEach((unit, i) => addUnitSlide(pptx, unit, i + 1, details, images.get(unit.id) ?? null))
+  return pptx
+}
+
+export async function downloadPPTX(pptx: PptxGenJS, filename: string): Promise<void> {
+  await pptx.writeFile({ fileName: filename })
+}
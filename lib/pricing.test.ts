@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { RateCard } from './types'
+import { calculatePricing, formatCurrency, getFlightImpressions, getRateCard, normalizeDiscount } from './pricing'
+import { makeUnit } from './testUtils'
+import rateCardData from '@/data/rateCards.json'
+
+// 28 days: exactly one rate period
+const FOUR_WEEKS = { startDate: '2026-03-02', endDate: '2026-03-29' }
+
+const RATES: Record<string, RateCard> = {
+  'U-1': { fourWeekRate: 4000, production: 500, install: 250 },
+  'U-2': { fourWeekRate: 2000, production: 0, install: 0 },
+}
+
+describe('getRateCard', () => {
+  it('uses the default for the unit type', () => {
+    expect(getRateCard(makeUnit('U-1', { type: 'digital' }))).toEqual(rateCardData.defaults.digital)
+  })
+})
+
+describe('getFlightImpressions', () => {
+  it('uses weekly impressions, or daily x 7 when weekly is missing', () => {
+    expect(getFlightImpressions(makeUnit('U-1', { weeklyImpressions: 10000 }), FOUR_WEEKS)).toBe(40000)
+    expect(getFlightImpressions(makeUnit('U-1', { dailyImpressions: 1000 }), FOUR_WEEKS)).toBe(28000)
+  })
+})
+
+describe('calculatePricing', () => {
+  const units = [makeUnit('U-1', { weeklyImpressions: 50000 }), makeUnit('U-2', { weeklyImpressions: 25000 }), makeUnit('U-3', { dailyImpressions: 1000 })]
+
+  it('totals gross, net and CPM, discounting media only', () => {
+    const pricing = calculatePricing(units, FOUR_WEEKS, 10, RATES)
+
+    expect(pricing.unpricedUnitIds).toEqual(['U-3'])
+    expect(pricing.mediaGross).toBe(6000)
+    expect(pricing.mediaNet).toBe(5400)
+    expect(pricing.production).toBe(500)
+    expect(pricing.install).toBe(250)
+    expect(pricing.gross).toBe(6750)
+    expect(pricing.net).toBe(6150)
+    // Unpriced units' impressions are left out: 300,000 over the flight
+    expect(pricing.impressions).toBe(300000)
+    expect(pricing.cpm).toBe(18)
+  })
+
+  it('pro-rates media by day over the flight', () => {
+    const twoWeeks = { startDate: '2026-03-02', endDate: '2026-03-15' }
+    const pricing = calculatePricing([units[0]], twoWeeks, 0, RATES)
+
+    expect(pricing.mediaGross).toBe(2000)
+    expect(pricing.production).toBe(500)
+  })
+
+  it('prices only with quoted rates when given them', () => {
+    const pricing = calculatePricing([makeUnit('U-9')], FOUR_WEEKS, 0, RATES)
+    expect(pricing.lines).toEqual([])
+    expect(pricing.unpricedUnitIds).toEqual(['U-9'])
+    expect(pricing.cpm).toBeNull()
+  })
+})
+
+describe('normalizeDiscount / formatCurrency', () => {
+  it('clamps discounts to 0-100', () => {
+    expect(normalizeDiscount(undefined)).toBe(0)
+    expect(normalizeDiscount(NaN)).toBe(0)
+    expect(normalizeDiscount(-5)).toBe(0)
+    expect(normalizeDiscount(150)).toBe(100)
+    expect(normalizeDiscount(12.5)).toBe(12.5)
+  })
+
+  it('formats dollars with cents only when asked', () => {
+    expect(formatCurrency(12500.4)).toBe('$12,500')
+    expect(formatCurrency(18.256, true)).toBe('$18.26')
+  })
+})
@@ -0,0 +1,121 @@
+import { DateRange, ProposalPricing, RateCard, Unit, UnitPricing } from './types'
+import { daysBetween } from './dates'
+import rateCardData from '@/data/rateCards.json'
+
+// Rate card rates are quoted per 4-week period
+const RATE_PERIOD_DAYS = 28
+
+const TYPE_DEFAULTS = rateCardData.defaults as Partial<Record<Unit['type'], Partial<RateCard>>>
+const UNIT_RATES = rateCardData.units as Record<string, Partial<RateCard>>
+
+/**
+ * Rate card for a unit: its own entry layered over the default for its type
+ * @returns null when neither sets a 4-week rate
+ */
+export function getRateCard(unit: Unit): RateCard | null {
+  const card = { ...TYPE_DEFAULTS[unit.type], ...UNIT_RATES[unit.id] }
+  if (typeof card.fourWeekRate !== 'number') return null
+
+  return {
+    fourWeekRate: card.fourWeekRate,
+    production: card.production ?? 0,
+    install: card.install ?? 0,
+  }
+}
+
+/**
+ * Impressions a unit delivers over a flight, from weekly impressions
+ * (or daily x 7 for units that only report daily)
+ */
+export function getFlightImpressions(unit: Unit, flight: DateRange): number {
+  const weekly = unit.weeklyImpressions || unit.dailyImpressions * 7
+  return (weekly * flightDays(flight)) / 7
+}
+
+/**
+ * Number of days in a flight, counting both ends
+ */
+function flightDays(flight: DateRange): number {
+  return daysBetween(flight.startDate, flight.endDate) + 1
+}
+
+/**
+ * Clamp a discount to 0-100, treating anything unusable as no discount
+ */
+export function normalizeDiscount(value: number | undefined): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0
+  return Math.min(100, Math.max(0, value))
+}
+
+/**
+ * Price a set of units over a flight
+ *
+ * Media is the 4-week rate pro-rated by day. The discount applies to media
+ * only; production and install are passed through at cost. Units without a
+ * rate card are listed in unpricedUnitIds and left out of every total,
+ * including impressions, so the CPM compares like with like.
+ * @param discountPercent - Negotiated discount off media, 0-100
+ * @param quotedRates - Rates already quoted to the client, by unit ID, used
+ *   instead of the current rate cards (units without one are unpriced)
+ */
+export function calculatePricing(
+  units: Unit[],
+  flight: DateRange,
+  discountPercent?: number,
+  quotedRates?: Record<string, RateCard>
+): ProposalPricing {
+  const discount = normalizeDiscount(discountPercent)
+  const periods = flightDays(flight) / RATE_PERIOD_DAYS
+
+  const lines: UnitPricing[] = []
+  const unpricedUnitIds: string[] = []
+
+  units.forEach(unit => {
+    const rateCard = quotedRates ? quotedRates[unit.id] || null : getRateCard(unit)
+    if (!rateCard) {
+      unpricedUnitIds.push(unit.id)
+      return
+    }
+    const mediaGross = rateCard.fourWeekRate * periods
+    lines.push({
+      unitId: unit.id,
+      rateCard,
+      mediaGross,
+      mediaNet: mediaGross * (1 - discount / 100),
+      impressions: getFlightImpressions(unit, flight),
+    })
+  })
+
+  const sum = (pick: (line: UnitPricing) => number) => lines.reduce((total, line) => total + pick(line), 0)
+  const mediaGross = sum(l => l.mediaGross)
+  const mediaNet = sum(l => l.mediaNet)
+  const production = sum(l => l.rateCard.production)
+  const install = sum(l => l.rateCard.install)
+  const impressions = sum(l => l.impressions)
+
+  return {
+    lines,
+    unpricedUnitIds,
+    discountPercent: discount,
+    mediaGross,
+    mediaNet,
+    production,
+    install,
+    gross: mediaGross + production + install,
+    net: mediaNet + production + install,
+    impressions,
+    cpm: impressions > 0 ? (mediaNet / impressions) * 1000 : null,
+  }
+}
+
+/**
+ * Format a dollar amount, e.g. "$12,500" (cents shown only when asked)
+ */
+export function formatCurrency(amount: number, cents = false): string {
+  return amount.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: cents ? 2 : 0,
+    maximumFractionDigits: cents ? 2 : 0,
+  })
+}
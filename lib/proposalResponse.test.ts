@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { Proposal, ProposalResponse } from './types'
+import { createProposal } from './proposals'
+import { toBase64Url } from './share'
+import {
+  applyProposalResponse,
+  decodeProposalResponse,
+  encodeProposalResponse,
+  parseResponseFile,
+  proposalFromResponse,
+  responseToFile,
+} from './proposalResponse'
+
+const FLIGHT = { startDate: '2026-03-02', endDate: '2026-03-29' }
+
+const RESPONSE: ProposalResponse = {
+  proposalId: 'prop-1',
+  title: 'Spring',
+  advertiser: 'Acme',
+  flight: FLIGHT,
+  respondent: 'Dana',
+  comment: 'Looks good — see notes',
+  respondedAt: '2026-02-10T15:00:00.000Z',
+  units: [
+    { unitId: 'U-1', decision: 'approved' },
+    { unitId: 'U-2', decision: 'rejected', comment: 'Wrong side of the road' },
+    { unitId: 'U-3' },
+  ],
+}
+
+describe('response links', () => {
+  it('round-trips a response, including non-ASCII text', () => {
+    expect(decodeProposalResponse(encodeProposalResponse(RESPONSE))).toEqual(RESPONSE)
+  })
+
+  it('rejects damaged values and JSON that isn\'t a response', () => {
+    expect(decodeProposalResponse('not base64!')).toBeNull()
+    expect(decodeProposalResponse(toBase64Url(new TextEncoder().encode('{"units":[]}')))).toBeNull()
+  })
+
+  it('drops unknown decisions and invalid flights', () => {
+    const tampered = { ...RESPONSE, flight: { startDate: 'soon', endDate: '2026-03-29' }, units: [{ unitId: 'U-1', decision: 'maybe' }] }
+    const decoded = decodeProposalResponse(toBase64Url(new TextEncoder().encode(JSON.stringify(tampered))))
+
+    expect(decoded?.flight).toBeUndefined()
+    expect(decoded?.units).toEqual([{ unitId: 'U-1' }])
+  })
+})
+
+describe('response files', () => {
+  it('reads back files it wrote and ignores other JSON', () => {
+    expect(parseResponseFile(responseToFile(RESPONSE))?.units).toHaveLength(3)
+    expect(parseResponseFile(JSON.stringify(RESPONSE))).toBeNull()
+    expect(parseResponseFile('not json')).toBeNull()
+  })
+})
+
+describe('applyProposalResponse', () => {
+  it('records decisions and leaves units the response doesn\'t mention alone', () => {
+    const proposal: Proposal = {
+      ...createProposal([], FLIGHT),
+      units: [
+        { unitId: 'U-1', notes: 'Prime corner' },
+        { unitId: 'U-2' },
+        { unitId: 'U-4', decision: 'approved' },
+      ],
+    }
+    const applied = applyProposalResponse(proposal, RESPONSE)
+
+    expect(applied.units).toEqual([
+      { unitId: 'U-1', notes: 'Prime corner', decision: 'approved', clientComment: undefined },
+      { unitId: 'U-2', decision: 'rejected', clientComment: 'Wrong side of the road' },
+      { unitId: 'U-4', decision: 'approved' },
+    ])
+    expect(applied.response).toEqual({
+      respondedAt: RESPONSE.respondedAt,
+      respondent: 'Dana',
+      comment: RESPONSE.comment,
+    })
+  })
+
+  it('builds a proposal from a response whose original isn\'t saved', () => {
+    const fallback = { startDate: '2026-05-04', endDate: '2026-05-31' }
+    const proposal = proposalFromResponse({ ...RESPONSE, flight: undefined, title: undefined }, fallback)
+
+    expect(proposal.title).toBe('Client response')
+    expect(proposal.flight).toEqual(fallback)
+    expect(proposal.units.map(u => u.decision)).toEqual(['approved', 'rejected', undefined])
+  })
+})
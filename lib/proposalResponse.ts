@@ -0,0 +1,135 @@
+import { DateRange, Proposal, ProposalResponse, UnitDecision, UnitResponse } from './types'
+import { createProposal } from './proposals'
+import { fromBase64Url, toBase64Url } from './share'
+import { isDateOnly } from './dates'
+
+// Marks a downloaded JSON file as a proposal response
+const RESPONSE_FILE_TYPE = 'capitol-proposal-response'
+const RESPONSE_FILE_VERSION = 1
+
+const DECISIONS: UnitDecision[] = ['approved', 'rejected']
+
+/**
+ * Check that parsed JSON has the shape of a response, dropping unknown fields
+ * @returns null when required fields are missing or malformed
+ */
+function validateResponse(data: unknown): ProposalResponse | null {
+  if (!data || typeof data !== 'object') return null
+  const value = data as Record<string, unknown>
+  if (typeof value.respondedAt !== 'string' || !Array.isArray(value.units)) return null
+
+  const text = (field: unknown) => (typeof field === 'string' && field ? field : undefined)
+
+  const units: UnitResponse[] = []
+  for (const item of value.units) {
+    if (!item || typeof item.unitId !== 'string') return null
+    units.push({
+      unitId: item.unitId,
+      decision: DECISIONS.includes(item.decision) ? item.decision : undefined,
+      comment: text(item.comment),
+    })
+  }
+
+  const flight = value.flight as DateRange | undefined
+  const validFlight = flight && isDateOnly(String(flight.startDate)) && isDateOnly(String(flight.endDate))
+
+  return {
+    proposalId: text(value.proposalId),
+    title: text(value.title),
+    advertiser: text(value.advertiser),
+    flight: validFlight ? { startDate: flight.startDate, endDate: flight.endDate } : undefined,
+    respondent: text(value.respondent),
+    comment: text(value.comment),
+    respondedAt: value.respondedAt,
+    units,
+  }
+}
+
+/**
+ * Encodes a response as a single URL-safe value (base64url JSON)
+ */
+export function encodeProposalResponse(response: ProposalResponse): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(response)))
+}
+
+/**
+ * Decodes a value written by encodeProposalResponse
+ * @returns null if the value is damaged or isn't a response
+ */
+export function decodeProposalResponse(value: string): ProposalResponse | null {
+  const bytes = fromBase64Url(value)
+  if (!bytes) return null
+
+  try {
+    return validateResponse(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Link that opens the response in the main app
+ * @param baseUrl - Base URL of the application
+ */
+export function generateResponseUrl(baseUrl: string, response: ProposalResponse): string {
+  return `${baseUrl}/?response=${encodeProposalResponse(response)}`
+}
+
+/**
+ * Contents of a downloadable response file
+ */
+export function responseToFile(response: ProposalResponse): string {
+  return JSON.stringify({ type: RESPONSE_FILE_TYPE, version: RESPONSE_FILE_VERSION, ...response }, null, 2)
+}
+
+/**
+ * Read a response file written by responseToFile
+ * @returns null if the file isn't a proposal response
+ */
+export function parseResponseFile(text: string): ProposalResponse | null {
+  try {
+    const data = JSON.parse(text)
+    if (data?.type !== RESPONSE_FILE_TYPE) return null
+    return validateResponse(data)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Record a client's decisions on a proposal
+ * Units the response doesn't mention keep their previous decision
+ */
+export function applyProposalResponse(proposal: Proposal, response: ProposalResponse): Proposal {
+  const byUnit = new Map(response.units.map(u => [u.unitId, u]))
+
+  return {
+    ...proposal,
+    units: proposal.units.map(unit => {
+      const answer = byUnit.get(unit.unitId)
+      return answer
+        ? { ...unit, decision: answer.decision, clientComment: answer.comment }
+        : unit
+    }),
+    response: {
+      respondedAt: response.respondedAt,
+      respondent: response.respondent,
+      comment: response.comment,
+    },
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Build a new proposal from a response whose original isn't saved on this device
+ * @param fallbackFlight - Used when the response doesn't carry flight dates
+ */
+export function proposalFromResponse(response: ProposalResponse, fallbackFlight: DateRange): Proposal {
+  const proposal = createProposal(
+    response.units.map(u => u.unitId),
+    response.flight || fallbackFlight,
+    response.title || 'Client response',
+    response.advertiser || ''
+  )
+  return applyProposalResponse(proposal, response)
+}
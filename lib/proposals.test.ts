@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { Proposal } from './types'
+import { createProposal, duplicateProposal, syncProposal } from './proposals'
+
+const FLIGHT = { startDate: '2026-03-02', endDate: '2026-03-29' }
+
+describe('createProposal / duplicateProposal', () => {
+  it('creates a proposal with the units in selection order', () => {
+    const proposal = createProposal(['U-2', 'U-1'], FLIGHT, 'Spring', 'Acme')
+
+    expect(proposal).toMatchObject({
+      title: 'Spring',
+      advertiser: 'Acme',
+      flight: FLIGHT,
+      units: [{ unitId: 'U-2' }, { unitId: 'U-1' }],
+    })
+    expect(proposal.createdAt).toBe(proposal.updatedAt)
+  })
+
+  it('copies units and notes under a new ID', () => {
+    const original: Proposal = {
+      ...createProposal(['U-1'], FLIGHT, 'Spring', 'Acme'),
+      units: [{ unitId: 'U-1', notes: 'Prime corner' }],
+    }
+    const copy = duplicateProposal(original)
+
+    expect(copy.id).not.toBe(original.id)
+    expect(copy.title).toBe('Spring (copy)')
+    expect(copy.units).toEqual(original.units)
+    expect(copy.units[0]).not.toBe(original.units[0])
+  })
+})
+
+describe('syncProposal', () => {
+  const proposal: Proposal = {
+    ...createProposal([], FLIGHT),
+    units: [
+      { unitId: 'U-1', notes: 'First' },
+      { unitId: 'U-2' },
+      { unitId: 'U-3', notes: 'Third' },
+    ],
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  }
+
+  it('returns the same object when nothing changed', () => {
+    expect(syncProposal(proposal, ['U-3', 'U-1', 'U-2'], { ...FLIGHT })).toBe(proposal)
+  })
+
+  it('drops deselected units and appends new ones, keeping notes and order', () => {
+    const synced = syncProposal(proposal, ['U-4', 'U-3', 'U-1'], FLIGHT)
+
+    expect(synced.units).toEqual([
+      { unitId: 'U-1', notes: 'First' },
+      { unitId: 'U-3', notes: 'Third' },
+      { unitId: 'U-4' },
+    ])
+    expect(synced.updatedAt).not.toBe(proposal.updatedAt)
+  })
+
+  it('follows a new flight', () => {
+    const flight = { startDate: '2026-03-30', endDate: '2026-04-26' }
+    expect(syncProposal(proposal, ['U-1', 'U-2', 'U-3'], flight).flight).toEqual(flight)
+  })
+})
@@ -0,0 +1,85 @@
+import { DateRange, Proposal } from './types'
+
+const STORAGE_KEY = 'capitol-map:proposals'
+
+/**
+ * Loads saved proposals, most recently updated first
+ */
+export function loadProposals(): Proposal[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const proposals: Proposal[] = stored ? JSON.parse(stored) : []
+    return proposals.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Writes the full proposal list back to browser storage
+ */
+export function saveProposals(proposals: Proposal[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(proposals))
+  } catch (err) {
+    console.error('Failed to save proposals:', err)
+  }
+}
+
+/**
+ * Create a new proposal for a set of units
+ */
+export function createProposal(
+  unitIds: string[],
+  flight: DateRange,
+  title: string = 'Untitled proposal',
+  advertiser: string = ''
+): Proposal {
+  const now = new Date().toISOString()
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title,
+    advertiser,
+    flight,
+    units: unitIds.map(unitId => ({ unitId })),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Copy a proposal under a new ID, keeping its units and notes
+ */
+export function duplicateProposal(proposal: Proposal): Proposal {
+  return {
+    ...createProposal([], proposal.flight, `${proposal.title} (copy)`, proposal.advertiser),
+    units: proposal.units.map(unit => ({ ...unit })),
+  }
+}
+
+/**
+ * Bring a proposal in line with the current selection and flight
+ * Units keep their notes and order; newly selected units are appended.
+ * @returns The same proposal object when nothing changed
+ */
+export function syncProposal(proposal: Proposal, unitIds: string[], flight: DateRange): Proposal {
+  const selected = new Set(unitIds)
+  const kept = proposal.units.filter(unit => selected.has(unit.unitId))
+  const existing = new Set(kept.map(unit => unit.unitId))
+  const added = unitIds.filter(id => !existing.has(id)).map(unitId => ({ unitId }))
+
+  const unchanged =
+    added.length === 0 &&
+    kept.length === proposal.units.length &&
+    proposal.flight.startDate === flight.startDate &&
+    proposal.flight.endDate === flight.endDate
+
+  if (unchanged) return proposal
+
+  return {
+    ...proposal,
+    flight,
+    units: [...kept, ...added],
+    updatedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { estimateReach, formatPeople, reachPercentForGRP } from './reach'
+import { makeUnit } from './testUtils'
+import populationData from '@/data/marketPopulation.json'
+
+const CURVE = { maxReach: 90, saturation: 0.004 }
+const FOUR_WEEKS = { startDate: '2026-03-02', endDate: '2026-03-29' }
+const BALTIMORE = populationData.markets.Baltimore
+
+describe('reachPercentForGRP', () => {
+  it('follows the negative exponential curve toward maxReach', () => {
+    expect(reachPercentForGRP(0, CURVE)).toBe(0)
+    expect(reachPercentForGRP(100, CURVE)).toBeCloseTo(90 * (1 - Math.exp(-0.4)), 10)
+    expect(reachPercentForGRP(100000, CURVE)).toBeCloseTo(90, 10)
+  })
+
+  it('rises more slowly as GRPs build', () => {
+    const first = reachPercentForGRP(100, CURVE)
+    const second = reachPercentForGRP(200, CURVE) - first
+    expect(second).toBeLessThan(first)
+  })
+})
+
+describe('estimateReach', () => {
+  it('measures GRPs, reach and frequency per market', () => {
+    // A quarter of the population each week, so 100 GRPs over four weeks
+    const units = [makeUnit('U-1', { market: 'Baltimore', weeklyImpressions: BALTIMORE / 4 })]
+    const estimate = estimateReach(units, FOUR_WEEKS, CURVE)
+    const [market] = estimate.markets
+
+    expect(market.market).toBe('Baltimore')
+    expect(market.grp).toBeCloseTo(100, 10)
+    expect(market.reachPercent).toBeCloseTo(reachPercentForGRP(100, CURVE), 10)
+    expect(market.reach).toBeCloseTo((BALTIMORE * market.reachPercent) / 100, 4)
+    expect(market.frequency).toBeCloseTo(100 / market.reachPercent, 10)
+  })
+
+  it('adds people reached across markets and lists markets without a population', () => {
+    const units = [
+      makeUnit('U-1', { market: 'Baltimore', weeklyImpressions: 100000 }),
+      makeUnit('U-2', { market: 'Baltimore', weeklyImpressions: 50000 }),
+      makeUnit('U-3', { market: 'Washington DC', weeklyImpressions: 200000 }),
+      makeUnit('U-4', { market: 'Nowhere', weeklyImpressions: 50000 }),
+    ]
+    const estimate = estimateReach(units, FOUR_WEEKS, CURVE)
+
+    expect(estimate.unmeasuredMarkets).toEqual(['Nowhere'])
+    const impressions = Object.fromEntries(estimate.markets.map(m => [m.market, m.impressions]))
+    expect(impressions).toEqual({ Baltimore: 600000, 'Washington DC': 800000 })
+    expect(estimate.impressions).toBe(1400000)
+    expect(estimate.reach).toBeCloseTo(estimate.markets[0].reach + estimate.markets[1].reach, 4)
+    expect(estimate.frequency).toBeCloseTo(estimate.impressions / estimate.reach, 10)
+    expect(estimate.markets[0].reach).toBeGreaterThanOrEqual(estimate.markets[1].reach)
+  })
+
+  it('returns zeros when no market can be measured', () => {
+    const units = [makeUnit('U-1', { market: 'Nowhere', weeklyImpressions: 1000 })]
+    const estimate = estimateReach(units, FOUR_WEEKS, CURVE)
+    expect(estimate).toMatchObject({ markets: [], population: 0, grp: 0, reach: 0, frequency: 0 })
+  })
+})
+
+describe('formatPeople', () => {
+  it('abbreviates thousands and millions', () => {
+    expect(formatPeople(1234567)).toBe('1.2M')
+    expect(formatPeople(850400)).toBe('850K')
+    expect(formatPeople(999)).toBe('999')
+  })
+})
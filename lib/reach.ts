@@ -0,0 +1,97 @@
+/**
+ * Reach and frequency estimates for a proposal
+ *
+ * GRPs are flight impressions as a percent of a market's adult population, so
+ * 100 GRPs means as many impressions as there are adults. Reach (the percent
+ * of adults who see the campaign at least once) follows a negative
+ * exponential curve:
+ *
+ *   reach% = maxReach * (1 - e^(-saturation * GRP))
+ *
+ * Reach rises almost linearly for small buys and flattens toward maxReach,
+ * because extra impressions increasingly land on people already reached.
+ * Frequency is GRP / reach%. The curve and populations live in
+ * data/marketPopulation.json; they are planning estimates, not audited
+ * Geopath reach.
+ */
+
+import { DateRange, MarketReach, ReachCurve, ReachEstimate, Unit } from './types'
+import { getFlightImpressions } from './pricing'
+import populationData from '@/data/marketPopulation.json'
+
+export const REACH_CURVE: ReachCurve = populationData.reachCurve
+const POPULATIONS: Record<string, number> = populationData.markets
+
+/**
+ * Percent of a population reached at a given GRP level
+ */
+export function reachPercentForGRP(grp: number, curve: ReachCurve = REACH_CURVE): number {
+  if (grp <= 0) return 0
+  return curve.maxReach * (1 - Math.exp(-curve.saturation * grp))
+}
+
+/**
+ * Reach figures for impressions delivered to a population
+ */
+function measure(impressions: number, population: number, curve: ReachCurve) {
+  const grp = (impressions / population) * 100
+  const reachPercent = reachPercentForGRP(grp, curve)
+  return {
+    grp,
+    reachPercent,
+    reach: (population * reachPercent) / 100,
+    frequency: reachPercent > 0 ? grp / reachPercent : 0,
+  }
+}
+
+/**
+ * Estimate reach, frequency and GRPs for a set of units over a flight
+ *
+ * Each market is measured on its own curve. Totals add up the people reached
+ * in every market, so they are never more than the combined population.
+ * Markets without a population figure are listed in unmeasuredMarkets.
+ */
+export function estimateReach(units: Unit[], flight: DateRange, curve: ReachCurve = REACH_CURVE): ReachEstimate {
+  const impressionsByMarket = new Map<string, number>()
+  units.forEach(unit => {
+    impressionsByMarket.set(unit.market, (impressionsByMarket.get(unit.market) || 0) + getFlightImpressions(unit, flight))
+  })
+
+  const markets: MarketReach[] = []
+  const unmeasuredMarkets: string[] = []
+
+  impressionsByMarket.forEach((impressions, market) => {
+    const population = POPULATIONS[market]
+    if (!population) {
+      unmeasuredMarkets.push(market)
+      return
+    }
+    markets.push({ market, population, impressions, ...measure(impressions, population, curve) })
+  })
+
+  markets.sort((a, b) => b.reach - a.reach)
+
+  const population = markets.reduce((sum, m) => sum + m.population, 0)
+  const impressions = markets.reduce((sum, m) => sum + m.impressions, 0)
+  const reach = markets.reduce((sum, m) => sum + m.reach, 0)
+
+  return {
+    markets,
+    unmeasuredMarkets,
+    population,
+    impressions,
+    grp: population > 0 ? (impressions / population) * 100 : 0,
+    reachPercent: population > 0 ? (reach / population) * 100 : 0,
+    reach,
+    frequency: reach > 0 ? impressions / reach : 0,
+  }
+}
+
+/**
+ * Format a head count compactly, e.g. "1.2M" or "850K"
+ */
+export function formatPeople(count: number): string {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`
+  if (count >= 1000) return `${Math.round(count / 1000)}K`
+  return Math.round(count).toLocaleString()
+}
@@ -0,0 +1,206 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { decodeShareState, encodeShareState, fromBase64Url, toBase64Url } from './share'
+
+const INVENTORY = Array.from({ length: 20 }, (_, i) => `U-${i + 1}`)
+
+describe('base64url', () => {
+  it('round-trips bytes without padding or unsafe characters', () => {
+    const bytes = Uint8Array.from([0, 250, 251, 252, 253, 254, 255])
+    const encoded = toBase64Url(bytes)
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(fromBase64Url(encoded)).toEqual(bytes)
+  })
+
+  it('returns null for invalid input', () => {
+    expect(fromBase64Url('not base64!')).toBeNull()
+  })
+})
+
+describe('encodeShareState / decodeShareState', () => {
+  it('writes units as a v2 bitset and reads them back in inventory order', () => {
+    const query = encodeShareState({ selectedUnits: ['U-12', 'U-1', 'U-3'] }, INVENTORY)
+    const params = new URLSearchParams(query)
+
+    expect(params.get('v')).toBe('2')
+    expect(params.get('u')).toBeTruthy()
+    expect(params.get('c')).toBeTruthy()
+    expect(params.has('units')).toBe(false)
+
+    const state = decodeShareState(query, INVENTORY)
+    expect(state.selectedUnits).toEqual(['U-1', 'U-3', 'U-12'])
+    expect(state.missingUnits).toBeUndefined()
+    expect(state.inventoryChanged).toBeUndefined()
+  })
+
+  it('drops units that are not in the inventory', () => {
+    const query = encodeShareState({ selectedUnits: ['U-2', 'GONE'] }, INVENTORY)
+    expect(decodeShareState(query, INVENTORY).selectedUnits).toEqual(['U-2'])
+  })
+
+  it('round-trips the proposal details', () => {
+    const state = {
+      selectedUnits: ['U-5'],
+      center: { lat: 38.9072, lng: -77.0369 },
+      zoom: 12,
+      proposalId: 'prop-1',
+      expires: '2026-12-31',
+      title: 'Spring & Summer',
+      advertiser: 'Acme, Inc.',
+      flight: { startDate: '2026-03-02', endDate: '2026-03-29' },
+      discountPercent: 15,
+      rep: { name: 'Chris', phone: '202.555.0100', email: 'chris@example.com' },
+    }
+    const decoded = decodeShareState(encodeShareState(state, INVENTORY), INVENTORY)
+    expect(decoded).toEqual({
+      ...state,
+      quotedRates: undefined,
+      unitStatuses: undefined,
+      missingUnits: undefined,
+      inventoryChanged: undefined,
+    })
+  })
+
+  it('round-trips statuses and quoted rates, leaving gaps for units without them', () => {
+    const query = encodeShareState(
+      {
+        selectedUnits: ['U-1', 'U-2', 'U-3', 'U-4'],
+        unitStatuses: { 'U-1': 'available', 'U-3': 'hold' },
+        quotedRates: {
+          'U-2': { fourWeekRate: 4500, production: 650, install: 300 },
+          'U-3': { fourWeekRate: 3800, production: 0, install: 0 },
+        },
+      },
+      INVENTORY
+    )
+    const params = new URLSearchParams(query)
+    expect(params.get('status')).toBe('a-h')
+    expect(params.get('rates')).toBe('_4500-650-300_3800-0-0')
+
+    const state = decodeShareState(query, INVENTORY)
+    expect(state.unitStatuses).toEqual({ 'U-1': 'available', 'U-3': 'hold' })
+    expect(state.quotedRates).toEqual({
+      'U-2': { fourWeekRate: 4500, production: 650, install: 300 },
+      'U-3': { fourWeekRate: 3800, production: 0, install: 0 },
+    })
+  })
+
+  it('ignores malformed rate quotes', () => {
+    const query = encodeShareState({ selectedUnits: ['U-1', 'U-2'] }, INVENTORY) + '&rates=100-x-0_200-10-5'
+    expect(decodeShareState(query, INVENTORY).quotedRates).toEqual({
+      'U-2': { fourWeekRate: 200, production: 10, install: 5 },
+    })
+  })
+
+  it('flags links whose positions now point at different units and drops positional data', () => {
+    const query = encodeShareState(
+      {
+        selectedUnits: ['U-1', 'U-2'],
+        unitStatuses: { 'U-1': 'sold' },
+        quotedRates: { 'U-1': { fourWeekRate: 1000, production: 0, install: 0 } },
+      },
+      INVENTORY
+    )
+    const extended = [...INVENTORY, 'NEW']
+    const shuffled = ['NEW', ...INVENTORY]
+
+    // Units added at the end leave existing positions alone
+    expect(decodeShareState(query, extended).inventoryChanged).toBeUndefined()
+
+    const state = decodeShareState(query, shuffled)
+    expect(state.selectedUnits).toEqual(['NEW', 'U-1'])
+    expect(state.inventoryChanged).toBe(true)
+    expect(state.unitStatuses).toBeUndefined()
+    expect(state.quotedRates).toBeUndefined()
+  })
+
+  it('lists positions past the end of the inventory as missing', () => {
+    const query = encodeShareState({ selectedUnits: ['U-1', 'U-20'] }, INVENTORY)
+    const state = decodeShareState(query, INVENTORY.slice(0, 10))
+    expect(state.selectedUnits).toEqual(['U-1'])
+    expect(state.missingUnits).toEqual(['Unit #20'])
+    expect(state.inventoryChanged).toBe(true)
+  })
+
+  it('reads legacy units= links', () => {
+    const state = decodeShareState('units=U-4,GONE,U-2&z=10&title=Legacy', INVENTORY)
+    expect(state.selectedUnits).toEqual(['U-4', 'U-2'])
+    expect(state.missingUnits).toEqual(['GONE'])
+    expect(state.inventoryChanged).toBeUndefined()
+    expect(state.zoom).toBe(10)
+    expect(state.title).toBe('Legacy')
+  })
+
+  it('ignores invalid flight dates and discounts', () => {
+    const state = decodeShareState('units=U-1&from=2026-13-01&to=soon&disc=150', INVENTORY)
+    expect(state.flight).toBeUndefined()
+    expect(state.discountPercent).toBeUndefined()
+  })
+})
+
+describe('signed links', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.resetModules()
+  })
+
+  // The signing settings are read when the module loads
+  async function loadShare(key: string, allowLegacyLinks = false) {
+    vi.stubEnv('NEXT_PUBLIC_SHARE_SIGNING_KEY', key)
+    vi.stubEnv('NEXT_PUBLIC_SHARE_ALLOW_LEGACY_LINKS', allowLegacyLinks ? 'true' : '')
+    vi.resetModules()
+    return import('./share')
+  }
+
+  it('accepts links it signed and rejects edited ones', async () => {
+    const { checkShareLink, signShareUrl } = await loadShare('test-key')
+    const url = await signShareUrl('https://example.com/share/?v=2&u=AQ&c=abc&title=Proposal')
+    const query = url.split('?')[1]
+
+    expect(new URLSearchParams(query).get('sig')).toBeTruthy()
+    expect(await checkShareLink(query)).toBe('valid')
+    expect(await checkShareLink(query.replace('title=Proposal', 'title=Edited'))).toBe('invalid')
+  })
+
+  it('rejects signed links with the signature removed', async () => {
+    const { checkShareLink, signShareUrl } = await loadShare('test-key')
+    const url = await signShareUrl('https://example.com/share/?v=2&u=AQ&c=abc&rates=4500-650-300&exp=2026-01-31')
+    const params = new URLSearchParams(url.split('?')[1])
+    params.delete('sig')
+    params.delete('exp')
+
+    expect(await checkShareLink(params.toString(), '2026-06-01')).toBe('invalid')
+  })
+
+  it('rejects unsigned legacy links unless they are allowed', async () => {
+    const { checkShareLink } = await loadShare('test-key')
+    expect(await checkShareLink('units=U-1,U-2&lat=38.9&lng=-77.0&z=12')).toBe('invalid')
+  })
+
+  it('opens bare legacy links as unsigned when they are allowed', async () => {
+    const { checkShareLink } = await loadShare('test-key', true)
+    expect(await checkShareLink('units=U-1,U-2')).toBe('unsigned')
+    expect(await checkShareLink('units=U-1,U-2&lat=38.9&lng=-77.0&z=12')).toBe('unsigned')
+  })
+
+  it('rejects unsigned legacy links that carry proposal details, even when allowed', async () => {
+    const { checkShareLink } = await loadShare('test-key', true)
+    expect(await checkShareLink('units=U-1,U-2&title=Proposal')).toBe('invalid')
+    expect(await checkShareLink('units=U-1,U-2&rates=1-0-0_1-0-0')).toBe('invalid')
+  })
+
+  it('rejects links past their expiry date', async () => {
+    const { checkShareLink, signShareUrl } = await loadShare('test-key')
+    const url = await signShareUrl('https://example.com/share/?units=U-1&exp=2026-01-31')
+    const query = url.split('?')[1]
+
+    expect(await checkShareLink(query, '2026-01-31')).toBe('valid')
+    expect(await checkShareLink(query, '2026-02-01')).toBe('expired')
+  })
+
+  it('leaves links unsigned when no key is configured', async () => {
+    const { checkShareLink, signShareUrl } = await loadShare('')
+    const url = 'https://example.com/share/?units=U-1'
+    expect(await signShareUrl(url)).toBe(url)
+    expect(await checkShareLink('units=U-1')).toBe('valid')
+  })
+})
@@ -1,17 +1,125 @@
-import { ShareState } from './types'
+import { AvailabilityStatus, RateCard, ShareState } from './types'
+import { isDateOnly, today } from './dates'
+
+// One character per unit in the `status` param, in the same order as the units
+const STATUS_CODES: Record<AvailabilityStatus, string> = {
+  available: 'a',
+  sold: 's',
+  hold: 'h',
+  pending: 'p',
+}
+const NO_STATUS = '-'
+
+// `rates` param: "fourWeekRate-production-install" per unit, in unit order, joined by '_'
+const RATE_SEPARATOR = '_'
+
+// Current link format: `u` is a bitset of inventory positions, `c` a checksum of the IDs
+const SHARE_VERSION = '2'
+
+// Links are signed when a key is configured. The key ships in the static
+// bundle, so the signature stops casual URL edits rather than a determined attacker.
+const SIGNING_KEY = process.env.NEXT_PUBLIC_SHARE_SIGNING_KEY || ''
+const SIGNATURE_BYTES = 16 // Truncated HMAC-SHA256, keeps links short
+
+// Params of the original `?units=` links, which predate signing
+const LEGACY_PARAMS = new Set(['units', 'lat', 'lng', 'z'])
+// Anyone can write a legacy link, so with signing on they only open when this
+// is set, e.g. while links sent before signing are still in circulation
+const ALLOW_LEGACY_LINKS = process.env.NEXT_PUBLIC_SHARE_ALLOW_LEGACY_LINKS === 'true'
+
+// 'unsigned': a legacy `units=` link, allowed by NEXT_PUBLIC_SHARE_ALLOW_LEGACY_LINKS
+// 'unverifiable': the browser can't check signatures (no Web Crypto outside https)
+export type ShareLinkCheck = 'valid' | 'unsigned' | 'unverifiable' | 'expired' | 'invalid'
+
+/**
+ * Encodes bytes as unpadded base64url, safe to use in a query string
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes unpadded base64url
+ * @returns null if the value isn't valid base64url
+ */
+export function fromBase64Url(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    return Uint8Array.from(binary, char => char.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Packs inventory positions into a base64url bitset (bit i set = unit i selected)
+ */
+function encodeBitset(indexes: number[]): string {
+  const bytes = new Uint8Array(Math.floor(Math.max(...indexes) / 8) + 1)
+  indexes.forEach(i => {
+    bytes[i >> 3] |= 1 << (i & 7)
+  })
+  return toBase64Url(bytes)
+}
+
+/**
+ * Unpacks a base64url bitset into inventory positions
+ * @returns Positions in ascending order, or null if the value isn't valid base64url
+ */
+function decodeBitset(value: string): number[] | null {
+  const bytes = fromBase64Url(value)
+  if (!bytes) return null
+
+  const indexes: number[] = []
+  bytes.forEach((bits, byte) => {
+    for (let bit = 0; bit < 8; bit++) {
+      if (bits & (1 << bit)) {
+        indexes.push(byte * 8 + bit)
+      }
+    }
+  })
+  return indexes
+}
 
 /**
- * Encodes selected unit IDs into a URL-safe string
- * @param unitIds - Array of unit IDs to encode
+ * Short checksum of a list of unit IDs (32-bit FNV-1a, base 36)
+ * Lets the share page tell when positions now point at different units
+ */
+function checksumUnitIds(unitIds: string[]): string {
+  let hash = 0x811c9dc5
+  const text = unitIds.join(',')
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * Encodes a share state into a URL-safe query string
+ * Units are written as a bitset against the inventory order, so the link
+ * stays short however many units are selected
+ * @param state - ShareState to encode
+ * @param inventoryIds - IDs of every unit, in inventory order
  * @returns URL-safe encoded string
  */
-export function encodeShareState(state: ShareState): string {
-  // Simple comma-separated encoding for unit IDs
-  // This keeps URLs readable and short
+export function encodeShareState(state: ShareState, inventoryIds: string[]): string {
   const params = new URLSearchParams()
+  params.set('v', SHARE_VERSION)
 
-  if (state.selectedUnits.length > 0) {
-    params.set('units', state.selectedUnits.join(','))
+  // Unknown IDs can't be written to the bitset and are dropped
+  const positions = new Map(inventoryIds.map((id, i) => [id, i]))
+  const selectedUnits = state.selectedUnits
+    .filter(id => positions.has(id))
+    .sort((a, b) => positions.get(a)! - positions.get(b)!)
+
+  if (selectedUnits.length > 0) {
+    params.set('u', encodeBitset(selectedUnits.map(id => positions.get(id)!)))
+    params.set('c', checksumUnitIds(selectedUnits))
   }
 
   if (state.center) {
@@ -23,19 +131,89 @@ export function encodeShareState(state: ShareState): string {
     params.set('z', state.zoom.toString())
   }
 
+  if (state.proposalId) {
+    params.set('pid', state.proposalId)
+  }
+
+  if (state.expires) {
+    params.set('exp', state.expires)
+  }
+
+  if (state.title) {
+    params.set('title', state.title)
+  }
+
+  if (state.advertiser) {
+    params.set('adv', state.advertiser)
+  }
+
+  if (state.flight) {
+    params.set('from', state.flight.startDate)
+    params.set('to', state.flight.endDate)
+  }
+
+  if (state.discountPercent) {
+    params.set('disc', state.discountPercent.toString())
+  }
+
+  if (state.rep) {
+    params.set('rep', state.rep.name)
+    if (state.rep.phone) params.set('rph', state.rep.phone)
+    if (state.rep.email) params.set('rem', state.rep.email)
+  }
+
+  const statuses = state.unitStatuses
+  if (statuses && selectedUnits.some(id => statuses[id])) {
+    // Trailing units without a status are left off
+    const codes = selectedUnits.map(id => STATUS_CODES[statuses[id]] || NO_STATUS).join('')
+    params.set('status', codes.replace(new RegExp(`${NO_STATUS}+$`), ''))
+  }
+
+  const rates = state.quotedRates
+  if (rates && selectedUnits.some(id => rates[id])) {
+    // Unpriced units are left empty, and trailing ones left off
+    const quotes = selectedUnits.map(id => {
+      const card = rates[id]
+      return card ? [card.fourWeekRate, card.production, card.install].join('-') : ''
+    })
+    params.set('rates', quotes.join(RATE_SEPARATOR).replace(new RegExp(`${RATE_SEPARATOR}+$`), ''))
+  }
+
   return params.toString()
 }
 
 /**
  * Decodes a URL search string into a ShareState object
+ * Reads current links as well as the original `?units=AC-10D,AC-12` format
  * @param searchParams - URL search parameters string
- * @returns ShareState object
+ * @param inventoryIds - IDs of every unit, in inventory order
+ * @returns ShareState object, with any units that no longer exist listed in missingUnits
  */
-export function decodeShareState(searchParams: string): ShareState {
+export function decodeShareState(searchParams: string, inventoryIds: string[]): ShareState {
   const params = new URLSearchParams(searchParams)
 
-  const unitsParam = params.get('units')
-  const selectedUnits = unitsParam ? unitsParam.split(',').filter(Boolean) : []
+  // Units in link order, null where the unit no longer exists
+  let linked: (string | null)[] = []
+  let missingUnits: string[] = []
+  let inventoryChanged = false
+
+  const bitset = params.get('u')
+  if (params.get('v') === SHARE_VERSION && bitset) {
+    const indexes = decodeBitset(bitset) || []
+    linked = indexes.map(i => (i < inventoryIds.length ? inventoryIds[i] : null))
+    missingUnits = indexes.filter(i => i >= inventoryIds.length).map(i => `Unit #${i + 1}`)
+  } else {
+    const unitsParam = params.get('units')
+    const known = new Set(inventoryIds)
+    const ids = unitsParam ? unitsParam.split(',').filter(Boolean) : []
+    linked = ids.map(id => (known.has(id) ? id : null))
+    missingUnits = ids.filter(id => !known.has(id))
+  }
+
+  const selectedUnits = linked.filter((id): id is string => id !== null)
+  if (params.get('c')) {
+    inventoryChanged = missingUnits.length > 0 || params.get('c') !== checksumUnitIds(selectedUnits)
+  }
 
   const lat = params.get('lat')
   const lng = params.get('lng')
@@ -46,24 +224,181 @@ export function decodeShareState(searchParams: string): ShareState {
   const z = params.get('z')
   const zoom = z ? parseInt(z, 10) : undefined
 
+  const from = params.get('from')
+  const to = params.get('to')
+  const flight = from && to && isDateOnly(from) && isDateOnly(to)
+    ? { startDate: from, endDate: to }
+    : undefined
+
+  const disc = parseFloat(params.get('disc') || '')
+  const discountPercent = disc > 0 && disc <= 100 ? disc : undefined
+
+  const repName = params.get('rep')
+  const rep = repName
+    ? { name: repName, phone: params.get('rph') || undefined, email: params.get('rem') || undefined }
+    : undefined
+
+  // Unknown codes (and '-') leave the unit without a status
+  const statusParam = params.get('status')
+  const unitStatuses: Record<string, AvailabilityStatus> = {}
+  if (statusParam && !inventoryChanged) {
+    const codes = Object.entries(STATUS_CODES)
+    linked.forEach((id, i) => {
+      const match = codes.find(([, code]) => code === statusParam[i])
+      if (id && match) {
+        unitStatuses[id] = match[0] as AvailabilityStatus
+      }
+    })
+  }
+
+  // Quotes are positional too, so they're dropped once the units have changed
+  const ratesParam = params.get('rates')
+  const quotedRates: Record<string, RateCard> = {}
+  if (ratesParam !== null && !inventoryChanged) {
+    const quotes = ratesParam.split(RATE_SEPARATOR)
+    linked.forEach((id, i) => {
+      const card = quotes[i] ? parseRateQuote(quotes[i]) : null
+      if (id && card) {
+        quotedRates[id] = card
+      }
+    })
+  }
+
   return {
     selectedUnits,
     center,
     zoom,
+    proposalId: params.get('pid') || undefined,
+    expires: params.get('exp') || undefined,
+    title: params.get('title') || undefined,
+    advertiser: params.get('adv') || undefined,
+    flight,
+    discountPercent,
+    rep,
+    quotedRates: ratesParam !== null && !inventoryChanged ? quotedRates : undefined,
+    unitStatuses: statusParam && !inventoryChanged ? unitStatuses : undefined,
+    missingUnits: missingUnits.length > 0 ? missingUnits : undefined,
+    inventoryChanged: inventoryChanged || undefined,
   }
 }
 
+/**
+ * Parse one unit's quote from the `rates` param
+ * @returns null unless it has three non-negative amounts
+ */
+function parseRateQuote(quote: string): RateCard | null {
+  const amounts = quote.split('-').map(Number)
+  if (amounts.length !== 3 || amounts.some(n => !Number.isFinite(n) || n < 0)) {
+    return null
+  }
+  const [fourWeekRate, production, install] = amounts
+  return { fourWeekRate, production, install }
+}
+
 /**
  * Generates a full shareable URL
  * @param baseUrl - Base URL of the application
  * @param state - ShareState to encode
+ * @param inventoryIds - IDs of every unit, in inventory order
  * @returns Full shareable URL
  */
-export function generateShareUrl(baseUrl: string, state: ShareState): string {
-  const encoded = encodeShareState(state)
+export function generateShareUrl(baseUrl: string, state: ShareState, inventoryIds: string[]): string {
+  const encoded = encodeShareState(state, inventoryIds)
   return `${baseUrl}/share/?${encoded}`
 }
 
+/**
+ * Web Crypto is only available in secure (https or localhost) contexts
+ */
+function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+/**
+ * HMAC-SHA256 of a share query, truncated and base64url encoded
+ */
+async function signQuery(query: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(SIGNING_KEY),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(query))
+  return toBase64Url(new Uint8Array(signature).slice(0, SIGNATURE_BYTES))
+}
+
+/**
+ * Query string with the signature removed, in the form it was signed
+ * Re-serializing means links whose encoding was changed in transit still verify
+ */
+function canonicalQuery(params: URLSearchParams): string {
+  const copy = new URLSearchParams(params)
+  copy.delete('sig')
+  return copy.toString()
+}
+
+/**
+ * Adds a signature to a share URL when a signing key is configured
+ * @returns The URL unchanged when signing is off
+ */
+export async function signShareUrl(url: string): Promise<string> {
+  if (!SIGNING_KEY) return url
+
+  const [base, query = ''] = url.split('?')
+  const params = new URLSearchParams(query)
+  params.set('sig', await signQuery(canonicalQuery(params)))
+  return `${base}?${params.toString()}`
+}
+
+/**
+ * Legacy links carry only units and a map view, no proposal details
+ */
+function isLegacyLink(params: URLSearchParams): boolean {
+  return Array.from(params.keys()).every(key => LEGACY_PARAMS.has(key))
+}
+
+/**
+ * Check a share link's signature and expiry date before showing it
+ * With a signing key configured, links without a matching signature are
+ * rejected. The only exception is a legacy `units=` link, which carries no
+ * prices or proposal details: when legacy links are allowed it comes back as
+ * 'unsigned'. Signed links the browser can't check come back as 'unverifiable'.
+ * @param searchParams - URL search parameters string
+ * @param asOf - Date to check expiry against (today by default)
+ */
+export async function checkShareLink(searchParams: string, asOf: string = today()): Promise<ShareLinkCheck> {
+  const params = new URLSearchParams(searchParams)
+
+  let check: ShareLinkCheck = 'valid'
+  if (SIGNING_KEY) {
+    const signature = params.get('sig')
+    if (!signature) {
+      return ALLOW_LEGACY_LINKS && isLegacyLink(params) ? 'unsigned' : 'invalid'
+    } else if (!isWebCryptoAvailable()) {
+      check = 'unverifiable'
+    } else {
+      try {
+        if (signature !== await signQuery(canonicalQuery(params))) {
+          return 'invalid'
+        }
+      } catch {
+        check = 'unverifiable'
+      }
+    }
+  }
+
+  // Links stay valid through their expiry date
+  const expires = params.get('exp')
+  if (expires && (!isDateOnly(expires) || expires < asOf)) {
+    return 'expired'
+  }
+
+  return check
+}
+
 /**
  * Copies text to clipboard
  * @param text - Text to copy
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { detectDelimiter, getSpreadsheetFormat, isExcelSupported, readWorkbook } from './spreadsheet'
+
+describe('getSpreadsheetFormat', () => {
+  it('reads Excel by extension or MIME type and text exports as delimited', () => {
+    expect(getSpreadsheetFormat(new File([], 'Avails.XLSX'))).toBe('xlsx')
+    expect(
+      getSpreadsheetFormat(new File([], 'avails', { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }))
+    ).toBe('xlsx')
+    expect(getSpreadsheetFormat(new File([], 'avails.tsv'))).toBe('delimited')
+    expect(getSpreadsheetFormat(new File([], 'avails.pdf'))).toBeNull()
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used most in the header row, ignoring quoted text', () => {
+    expect(detectDelimiter('unit_id\tstart_date\tend_date\nU-1\t2026-03-01\t2026-03-28')).toBe('\t')
+    expect(detectDelimiter('unit_id;"start, date";end_date')).toBe(';')
+    expect(detectDelimiter('unit_id')).toBe(',')
+  })
+})
+
+describe('readWorkbook', () => {
+  async function workbookFile(sheets: Record<string, unknown[][]>): Promise<File> {
+    const mod = await import('xlsx')
+    const XLSX = typeof mod.utils?.book_new === 'function' ? mod : mod.default
+    const book = XLSX.utils.book_new()
+    Object.entries(sheets).forEach(([name, rows]) => {
+      XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows, { dateNF: 'mm/dd/yyyy' }), name)
+    })
+    return new File([XLSX.write(book, { type: 'array', bookType: 'xlsx' })], 'avails.xlsx')
+  }
+
+  it('reads every sheet as rows of text, with dates as YYYY-MM-DD', async ({ skip }) => {
+    // SheetJS is optional, so this only runs where it's installed
+    if (!(await isExcelSupported())) skip()
+
+    const file = await workbookFile({
+      Avails: [
+        ['unit_id', 'start_date', 'status', 'hold_position'],
+        ['U-1', new Date(2026, 2, 1), 'sold', 2],
+      ],
+      Notes: [['Imported from the traffic system']],
+    })
+    const workbook = await readWorkbook(file)
+
+    expect(workbook.sheetNames).toEqual(['Avails', 'Notes'])
+    expect(workbook.sheets.Avails).toEqual([
+      ['unit_id', 'start_date', 'status', 'hold_position'],
+      ['U-1', '2026-03-01', 'sold', '2'],
+    ])
+    expect(workbook.sheets.Notes).toEqual([['Imported from the traffic system']])
+  })
+})
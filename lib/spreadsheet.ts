@@ -0,0 +1,138 @@
+export type SpreadsheetFormat = 'delimited' | 'xlsx'
+
+export interface Workbook {
+  sheetNames: string[]
+  sheets: Record<string, string[][]> // Rows of cell text per sheet
+}
+
+// Delimiters tried when sniffing a text export, in order of preference
+const DELIMITERS = [',', '\t', ';']
+
+type SheetJS = typeof import('xlsx')
+
+/**
+ * Whether a module has the parts of SheetJS readWorkbook calls
+ */
+function isSheetJS(value: Partial<SheetJS> | undefined): value is SheetJS {
+  return (
+    typeof value?.read === 'function' &&
+    typeof value.SSF?.is_date === 'function' &&
+    typeof value.utils?.decode_range === 'function'
+  )
+}
+
+/**
+ * Load SheetJS on demand, so the parser only ships to users who import Excel files
+ * Depending on the bundler, the CommonJS build's exports may only be on
+ * `default`, so both are checked.
+ * @returns null when SheetJS isn't installed (builds without it alias it to an empty module)
+ */
+async function loadSheetJS(): Promise<SheetJS | null> {
+  try {
+    const mod: Partial<SheetJS> & { default?: Partial<SheetJS> } = await import('xlsx')
+    if (isSheetJS(mod)) return mod
+    return isSheetJS(mod.default) ? mod.default : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether this build can read Excel workbooks
+ */
+export async function isExcelSupported(): Promise<boolean> {
+  return (await loadSheetJS()) !== null
+}
+
+/**
+ * Work out how a file should be read from its name and MIME type
+ * @returns null when the file is not a supported spreadsheet
+ */
+export function getSpreadsheetFormat(file: File): SpreadsheetFormat | null {
+  const name = file.name.toLowerCase()
+
+  if (name.endsWith('.xlsx') || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    return 'xlsx'
+  }
+
+  if (
+    name.endsWith('.csv') ||
+    name.endsWith('.tsv') ||
+    name.endsWith('.txt') ||
+    file.type === 'text/csv' ||
+    file.type === 'text/tab-separated-values'
+  ) {
+    return 'delimited'
+  }
+
+  return null
+}
+
+/**
+ * Pick the delimiter used by a text export by counting candidates in its header row
+ * Quoted sections are ignored so commas inside quoted headers don't count
+ */
+export function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+
+  let best = DELIMITERS[0]
+  let bestCount = 0
+  for (const delimiter of DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * Read every sheet of an Excel workbook as rows of cell text
+ * Date cells are written as YYYY-MM-DD from their serial value, so they
+ * don't depend on the workbook's display format or the browser's timezone
+ */
+export async function readWorkbook(file: File): Promise<Workbook> {
+  const XLSX = await loadSheetJS()
+  if (!XLSX) {
+    throw new Error('Excel import is not available in this build')
+  }
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellNF: true })
+
+  const cellText = (cell: import('xlsx').CellObject | undefined): string => {
+    if (!cell || cell.v === undefined || cell.v === null) return ''
+
+    if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+      const date = XLSX.SSF.parse_date_code(cell.v as number)
+      return [
+        String(date.y).padStart(4, '0'),
+        String(date.m).padStart(2, '0'),
+        String(date.d).padStart(2, '0'),
+      ].join('-')
+    }
+
+    return cell.w ?? String(cell.v)
+  }
+
+  const sheets: Record<string, string[][]> = {}
+  workbook.SheetNames.forEach(name => {
+    const sheet = workbook.Sheets[name]
+    const rows: string[][] = []
+
+    if (sheet['!ref']) {
+      const range = XLSX.utils.decode_range(sheet['!ref'])
+      for (let r = range.s.r; r <= range.e.r; r++) {
+        const row: string[] = []
+        for (let c = range.s.c; c <= range.e.c; c++) {
+          row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })]))
+        }
+        rows.push(row)
+      }
+    }
+
+    sheets[name] = rows
+  })
+
+  return { sheetNames: workbook.SheetNames, sheets }
+}
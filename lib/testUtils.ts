@@ -0,0 +1,25 @@
+import { Unit } from './types'
+
+/**
+ * A unit for tests, with only the fields a test cares about set
+ * Everything else is a neutral placeholder: a billboard with no impressions
+ */
+export function makeUnit(id: string, overrides: Partial<Unit> = {}): Unit {
+  return {
+    id,
+    name: id,
+    type: 'billboard',
+    market: 'Washington DC',
+    address: '',
+    lat: 0,
+    lng: 0,
+    size: '',
+    facing: '',
+    illuminated: false,
+    digital: false,
+    dailyImpressions: 0,
+    image: '',
+    streetViewHeading: 0,
+    ...overrides,
+  }
+}
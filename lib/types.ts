@@ -1,17 +1,232 @@
 export type AvailabilityStatus = 'available' | 'sold' | 'hold' | 'pending'
 
+// Queue position of a hold: a 2nd hold only books the face if the 1st lapses
+export type HoldPosition = 1 | 2
+
 export interface AvailabilityPeriod {
   startDate: string // ISO date string (e.g., "2026-01-20")
   endDate: string
   status: AvailabilityStatus
   client?: string // Client name if sold/hold
   notes?: string
+  holdPosition?: HoldPosition // Holds only; treated as 1st when missing
+  holdExpires?: string // Holds only; last day the hold stands
 }
 
 export interface UnitAvailability {
   unitId: string
   periods: AvailabilityPeriod[]
   lastUpdated: string // ISO date string
+  source?: string // File name of the import that supplied these periods
+}
+
+// Availability import columns, named as in the CSV template
+export type ImportField =
+  | 'unit_id'
+  | 'start_date'
+  | 'end_date'
+  | 'status'
+  | 'client'
+  | 'notes'
+  | 'hold_position'
+  | 'hold_expires'
+
+// Column index per import field, -1 when the file has no such column
+export type ColumnMapping = Record<ImportField, number>
+
+// How an import is combined with availability already loaded
+export type MergeStrategy = 'replace' | 'append' | 'newest-wins'
+
+export interface PeriodConflict {
+  first: number // Index of the earlier period in the checked list
+  second: number
+  kind: 'overlap' | 'contradiction' // Contradiction = different status or client on the same dates
+}
+
+export interface UnitAvailabilityDiff {
+  unitId: string
+  isNew: boolean
+  added: AvailabilityPeriod[]
+  removed: AvailabilityPeriod[]
+}
+
+export interface DateRange {
+  startDate: string // ISO date string (e.g., "2026-01-20")
+  endDate: string
+}
+
+// A sales calendar: numbered periods of a fixed length from a yearly anchor date
+export interface PeriodCalendar {
+  cycleDays: number // 28 for 4-week periods, 7 for weekly digital
+  prefix: string // Label prefix, e.g. "P" for "P07 2026"
+  weekStartsOn: number // 0 = Sunday; years without an anchor start on this day on or before Jan 1
+  yearAnchors: Record<string, string> // Sales year -> first day of its first period
+}
+
+// Calendar settings for a subset of inventory; unset fields fall back to the default
+export interface PeriodCalendarOverride extends Partial<PeriodCalendar> {
+  market?: string
+  type?: Unit['type']
+}
+
+export interface SalesPeriod extends DateRange {
+  year: number // Sales year the period belongs to
+  number: number // 1-based position within the year
+  label: string // e.g. "P07 2026"
+}
+
+export interface AvailabilitySnapshot {
+  id: string
+  fileName: string
+  importedAt: string // ISO timestamp
+  units: UnitAvailability[] // Full merged availability after this import
+}
+
+// A client's answer on one unit of a shared proposal
+export type UnitDecision = 'approved' | 'rejected'
+
+export interface ProposalUnit {
+  unitId: string
+  notes?: string // Shown with the unit wherever the proposal is presented
+  decision?: UnitDecision // From the client's latest response
+  clientComment?: string
+}
+
+export interface Proposal {
+  id: string
+  title: string
+  advertiser: string
+  flight: DateRange
+  units: ProposalUnit[] // In the order they were added
+  discountPercent?: number // Negotiated discount off the media rate, 0-100
+  createdAt: string // ISO timestamp
+  updatedAt: string // ISO timestamp
+  response?: {
+    respondedAt: string // ISO timestamp
+    respondent?: string
+    comment?: string
+  }
+}
+
+export interface UnitResponse {
+  unitId: string
+  decision?: UnitDecision
+  comment?: string
+}
+
+// What the share page sends back to the rep, as a link or a file
+export interface ProposalResponse {
+  proposalId?: string // Matches the rep's saved proposal when present
+  title?: string
+  advertiser?: string
+  flight?: DateRange
+  respondent?: string
+  comment?: string
+  respondedAt: string // ISO timestamp
+  units: UnitResponse[]
+}
+
+// Sales rep named on generated documents
+export interface RepContact {
+  name: string
+  phone?: string
+  email?: string
+}
+
+// Company look and contact details, from data/branding.json
+export interface Branding {
+  companyName: string
+  website: string
+  logo: string // Path under public/
+  logoPng: string // PNG copy of the logo for PDFs and decks, which can't embed WebP outside the browser
+  colors: {
+    primary: string
+    primaryDark: string
+    primaryLight: string
+    dark: string
+    gray: string
+    light: string
+  }
+  fonts: {
+    web: string // Google Fonts family for the app
+    pdf: 'helvetica' | 'times' | 'courier' // jsPDF built-in font
+  }
+  unitTypeColors: Record<Unit['type'], string> // Map markers and legend
+  office: { name: string; phone: string } // Shown on documents when the rep has no phone
+  reps: RepContact[]
+}
+
+// Prices in USD; media is quoted per 4-week period, production and install are one-time
+export interface RateCard {
+  fourWeekRate: number
+  production: number
+  install: number
+}
+
+export interface UnitPricing {
+  unitId: string
+  rateCard: RateCard
+  mediaGross: number // Four-week rate pro-rated over the flight
+  mediaNet: number // After the proposal discount
+  impressions: number // Over the flight
+}
+
+export interface ProposalPricing {
+  lines: UnitPricing[]
+  unpricedUnitIds: string[] // Units with no rate card, left out of every total
+  discountPercent: number
+  mediaGross: number
+  mediaNet: number
+  production: number
+  install: number
+  gross: number // Media gross plus production and install
+  net: number // Media net plus production and install
+  impressions: number
+  cpm: number | null // Net media cost per thousand impressions; null without impressions
+}
+
+export interface ComparisonOption {
+  proposalId: string
+  title: string
+  flight: DateRange
+  unitIds: string[] // Skips units no longer in inventory
+  uniqueUnitIds: string[] // Units in no other option being compared
+  markets: string[]
+  weeklyImpressions: number
+  pricing: ProposalPricing
+  statusCounts: Partial<Record<AvailabilityStatus, number>> // Over this option's flight
+}
+
+export interface ProposalComparison {
+  options: ComparisonOption[]
+  sharedUnitIds: string[] // Units in more than one option
+}
+
+// Negative exponential reach curve; see lib/reach.ts
+export interface ReachCurve {
+  maxReach: number // Reach ceiling, percent of population
+  saturation: number // How fast reach approaches the ceiling per GRP
+}
+
+export interface MarketReach {
+  market: string
+  population: number // Adults 18+
+  impressions: number // Over the flight
+  grp: number // Gross rating points: impressions as a percent of population
+  reachPercent: number
+  reach: number // People reached at least once
+  frequency: number // Average times each person reached sees the campaign
+}
+
+export interface ReachEstimate {
+  markets: MarketReach[]
+  unmeasuredMarkets: string[] // No population figure, left out of every total
+  population: number
+  impressions: number
+  grp: number
+  reachPercent: number
+  reach: number
+  frequency: number
 }
 
 export interface Unit {
@@ -40,8 +255,24 @@ export interface MarketFilter {
   count: number
 }
 
+export interface MapView {
+  center: { lat: number; lng: number }
+  zoom: number
+}
+
 export interface ShareState {
   selectedUnits: string[]
+  proposalId?: string // Lets a client response find its way back to the proposal
+  expires?: string // Last day the link can be opened
+  discountPercent?: number
+  rep?: RepContact // Who prepared the proposal, shown on the page and its PDF
+  quotedRates?: Record<string, RateCard> // Rate card per unit when the link was made
   center?: { lat: number; lng: number }
   zoom?: number
+  title?: string
+  advertiser?: string
+  flight?: DateRange
+  unitStatuses?: Record<string, AvailabilityStatus> // Flight status per unit when the link was made
+  missingUnits?: string[] // Set when decoding: linked units that are no longer in the inventory
+  inventoryChanged?: boolean // Set when decoding: the link's checksum no longer matches its units
 }
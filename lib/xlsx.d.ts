@@ -0,0 +1,34 @@
+// The parts of SheetJS this repo uses. SheetJS is an optional dependency (it
+// installs from the SheetJS CDN), so it's declared here and the app type-checks
+// whether or not it's installed.
+declare module 'xlsx' {
+  export interface CellObject {
+    t: string // Cell type: 'n' number, 's' string, 'b' boolean, 'd' date, 'e' error
+    v?: unknown // Raw value
+    w?: string // Formatted text
+    z?: string | number // Number format
+  }
+
+  export type WorkSheet = Record<string, CellObject | undefined> & { '!ref'?: string }
+
+  export interface WorkBook {
+    SheetNames: string[]
+    Sheets: Record<string, WorkSheet>
+  }
+
+  export function read(data: ArrayBuffer, options: { type: 'array'; cellNF?: boolean }): WorkBook
+  export function write(workbook: WorkBook, options: { type: 'array'; bookType: 'xlsx' }): ArrayBuffer
+
+  export const SSF: {
+    is_date(format: string | number): boolean
+    parse_date_code(serial: number): { y: number; m: number; d: number }
+  }
+
+  export const utils: {
+    decode_range(ref: string): { s: { r: number; c: number }; e: { r: number; c: number } }
+    encode_cell(cell: { r: number; c: number }): string
+    book_new(): WorkBook
+    book_append_sheet(workbook: WorkBook, sheet: WorkSheet, name: string): void
+    aoa_to_sheet(rows: unknown[][], options?: { dateNF?: string }): WorkSheet
+  }
+}
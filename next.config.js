@@ -1,3 +1,13 @@
+// SheetJS is optional (see README): without it, Excel imports are turned off
+function hasSheetJS() {
+  try {
+    require.resolve('xlsx')
+    return true
+  } catch {
+    return false
+  }
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'export',
@@ -5,6 +15,12 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  webpack: (config) => {
+    if (!hasSheetJS()) {
+      config.resolve.alias = { ...config.resolve.alias, xlsx: false }
+    }
+    return config
+  },
 }
 
 module.exports = nextConfig
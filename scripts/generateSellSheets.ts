@@ -0,0 +1,111 @@
+/**
+ * Render a sell sheet PDF for every unit, using the same templates as the
+ * browser, and point each unit's `sellsheet` at its file
+ * Run: npm run sellsheets
+ *      npm run sellsheets -- --market "Baltimore" --type billboard
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import jsPDF from 'jspdf'
+import { generateSellSheet } from '../lib/pdfGenerator'
+import { PDFImage, setImageLoader } from '../lib/images'
+import { Unit } from '../lib/types'
+
+const ROOT = path.join(__dirname, '..')
+const PUBLIC_DIR = path.join(ROOT, 'public')
+const INVENTORY_PATH = path.join(ROOT, 'data/inventory.json')
+const OUTPUT_DIR = path.join(PUBLIC_DIR, 'sellsheets')
+
+// Formats jsPDF can embed without a canvas to convert them
+const IMAGE_FORMATS: Record<string, PDFImage['format']> = {
+  '.jpg': 'JPEG',
+  '.jpeg': 'JPEG',
+  '.png': 'PNG',
+}
+
+// Image problems, reported once after the run instead of between progress lines
+const warnings = new Set<string>()
+
+/**
+ * Load an image from public/, or null (drawn as a placeholder) when it's
+ * missing or in a format jsPDF can't embed
+ */
+async function loadLocalImage(src: string): Promise<PDFImage | null> {
+  const file = path.join(PUBLIC_DIR, src)
+  const format = IMAGE_FORMATS[path.extname(file).toLowerCase()]
+  if (!format) {
+    warnings.add(`Skipped ${src}: only JPEG and PNG images can be embedded`)
+    return null
+  }
+  if (!fs.existsSync(file)) {
+    warnings.add(`Image not found: ${src}`)
+    return null
+  }
+
+  const data = `data:image/${format.toLowerCase()};base64,${fs.readFileSync(file).toString('base64')}`
+  const { width, height } = new jsPDF().getImageProperties(data)
+  return { data, format, width, height }
+}
+
+function usage(): never {
+  console.log('Usage: npm run sellsheets -- [--market <name>] [--type <type>]')
+  console.log('Without filters, a sell sheet is generated for every unit.')
+  process.exit(0)
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      market: { type: 'string' },
+      type: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  if (values.help) usage()
+
+  const inventory: { units: Unit[] } = JSON.parse(fs.readFileSync(INVENTORY_PATH, 'utf8'))
+  const market = values.market?.toLowerCase()
+  const type = values.type?.toLowerCase()
+  const units = inventory.units.filter(unit =>
+    (!market || unit.market.toLowerCase() === market) && (!type || unit.type === type)
+  )
+
+  if (units.length === 0) {
+    console.error('Error: no units match the given market/type')
+    process.exit(1)
+  }
+
+  setImageLoader(loadLocalImage)
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true })
+
+  console.log(`Generating sell sheets for ${units.length} of ${inventory.units.length} units...`)
+  const startTime = Date.now()
+
+  let processed = 0
+
+  for (const unit of units) {
+    process.stdout.write(`[${processed + 1}/${units.length}] ${unit.id}... `)
+
+    const doc = await generateSellSheet(unit)
+    const fileName = `${unit.id}.pdf`
+    fs.writeFileSync(path.join(OUTPUT_DIR, fileName), Buffer.from(doc.output('arraybuffer')))
+    unit.sellsheet = `/sellsheets/${fileName}`
+
+    console.log('done')
+    processed++
+  }
+
+  fs.writeFileSync(INVENTORY_PATH, JSON.stringify(inventory, null, 2))
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1)
+  console.log('---')
+  console.log(`Done! Wrote ${units.length} sell sheets to public/sellsheets in ${elapsed}s`)
+  warnings.forEach(warning => console.warn(`Warning: ${warning}`))
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
@@ -1,4 +1,7 @@
 import type { Config } from 'tailwindcss'
+import branding from './data/branding.json'
+
+const { colors, fonts } = branding
 
 const config: Config = {
   content: [
@@ -9,16 +12,16 @@ const config: Config = {
     extend: {
       colors: {
         capitol: {
-          red: '#C41230',
-          'red-dark': '#9E0F28',
-          'red-light': '#D91A3C',
-          dark: '#1A1A1A',
-          gray: '#4A4A4A',
-          light: '#F5F5F5',
+          red: colors.primary,
+          'red-dark': colors.primaryDark,
+          'red-light': colors.primaryLight,
+          dark: colors.dark,
+          gray: colors.gray,
+          light: colors.light,
         },
       },
       fontFamily: {
-        sans: ['Montserrat', 'system-ui', 'sans-serif'],
+        sans: [fonts.web, 'system-ui', 'sans-serif'],
       },
     },
   },